@@ -1,23 +1,58 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+// Local chains (Hardhat node, Anvil) get a mock reward token so the payout flow is testable end to end
+const LOCAL_CHAIN_ID = "31337";
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute } = hre.deployments;
+
+  const isLocal = (await hre.getChainId()) === LOCAL_CHAIN_ID;
 
-  // Deploy MiningChallenge contract
   // rewardToken: address(0) means no reward token (optional)
-  // minMineInterval: 60 seconds (1 minute)
+  let rewardTokenAddress = hre.ethers.ZeroAddress;
+  if (isLocal) {
+    const deployedRewardToken = await deploy("MockRewardToken", {
+      from: deployer,
+      args: ["Mining Reward", "MINE"], // name, symbol
+      log: true,
+      waitConfirmations: 1,
+    });
+    rewardTokenAddress = deployedRewardToken.address;
+    console.log(`MockRewardToken contract deployed at: ${rewardTokenAddress}`);
+  }
+
+  // Deploy MiningChallenge contract
+  // minMineInterval: 10 seconds
   const deployedMiningChallenge = await deploy("MiningChallenge", {
     from: deployer,
-    args: [hre.ethers.ZeroAddress, 10], // rewardToken, minMineInterval
+    args: [rewardTokenAddress, 10], // rewardToken, minMineInterval
     log: true,
     waitConfirmations: 1,
   });
 
   console.log(`MiningChallenge contract deployed at: ${deployedMiningChallenge.address}`);
+
+  if (isLocal && deployedMiningChallenge.newlyDeployed) {
+    // Publish a reward schedule for the top 3 ranks and escrow enough tokens to pay it
+    const schedule = [100n, 50n, 25n].map((amount) => hre.ethers.parseUnits(amount.toString(), 18));
+    const funding = schedule.reduce((sum, amount) => sum + amount, 0n);
+
+    await execute("MockRewardToken", { from: deployer, log: true }, "mint", deployer, funding);
+    await execute(
+      "MockRewardToken",
+      { from: deployer, log: true },
+      "approve",
+      deployedMiningChallenge.address,
+      funding,
+    );
+    await execute("MiningChallenge", { from: deployer, log: true }, "setRewardSchedule", schedule);
+    await execute("MiningChallenge", { from: deployer, log: true }, "fundRewards", funding);
+
+    console.log(`MiningChallenge reward pool funded with ${hre.ethers.formatUnits(funding, 18)} MINE`);
+  }
 };
 export default func;
 func.id = "deploy_miningChallenge"; // id required to prevent reexecution
 func.tags = ["MiningChallenge"];
-
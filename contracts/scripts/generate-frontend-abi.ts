@@ -1,16 +1,35 @@
+import { Interface } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 
+type ChainRegistryEntry = {
+  address?: `0x${string}`;
+  chainId?: number;
+  // Block of the deployment transaction, where event log queries start
+  deployBlock?: number;
+  chainName?: string;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+};
+
+// Canonical, order-independent form of an ABI, used to compare a deployment with the artifact
+function abiSignatures(abi: any[]): string[] {
+  return new Interface(abi).format().slice().sort();
+}
+
 /**
  * Script to generate frontend ABI and address files from deployment artifacts
  * This script automatically reads deployment information and updates frontend files
  * Skips networks where the contract is not deployed
+ * Fails when a deployment's ABI differs from the compiled contract: the frontend would call
+ * functions the deployed contract does not have. Redeploy that network or delete its deployment.
  */
 async function generateFrontendABI() {
   const contractName = "MiningChallenge";
   const deploymentsDir = path.join(__dirname, "..", "deployments");
   const frontendAbiDir = path.join(__dirname, "..", "..", "frontend", "abi");
-  
+
   // Ensure frontend ABI directory exists
   if (!fs.existsSync(frontendAbiDir)) {
     fs.mkdirSync(frontendAbiDir, { recursive: true });
@@ -43,65 +62,132 @@ async function generateFrontendABI() {
     anvil: "Anvil Local",
   };
 
-  const addresses: Record<string, { address?: `0x${string}`; chainId?: number; chainName?: string }> = {};
-  let contractABI: any[] = [];
+  // Public JSON-RPC endpoint used by the frontend for read-only (spectator) access.
+  // Override per network with FRONTEND_RPC_URL_<NETWORK>, e.g. FRONTEND_RPC_URL_SEPOLIA.
+  // Never put a keyed RPC URL here: the value ends up in the browser bundle.
+  const rpcUrlMap: Record<string, string> = {
+    hardhat: "http://localhost:8545",
+    localhost: "http://localhost:8545",
+    sepolia: "https://ethereum-sepolia-rpc.publicnode.com",
+    anvil: "http://localhost:8545",
+  };
+  const rpcUrlOf = (network: string): string | undefined =>
+    process.env[`FRONTEND_RPC_URL_${network.toUpperCase()}`] ||
+    rpcUrlMap[network];
+
+  // Block explorer, used with rpcUrl when the frontend asks the wallet to add the chain
+  const explorerUrlMap: Record<string, string> = {
+    sepolia: "https://sepolia.etherscan.io",
+  };
+
+  // Native currency shown by the wallet for an added chain
+  const nativeCurrencyMap: Record<
+    string,
+    ChainRegistryEntry["nativeCurrency"]
+  > = {
+    hardhat: { name: "Ether", symbol: "ETH", decimals: 18 },
+    localhost: { name: "Ether", symbol: "ETH", decimals: 18 },
+    sepolia: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    anvil: { name: "Ether", symbol: "ETH", decimals: 18 },
+  };
+
+  // Everything the frontend knows about a chain besides the contract address
+  const chainMetadataOf = (network: string) => ({
+    rpcUrl: rpcUrlOf(network),
+    explorerUrl: explorerUrlMap[network],
+    nativeCurrency: nativeCurrencyMap[network],
+  });
+
+  // The frontend ABI always comes from the compiled contract
+  let artifactPath = path.join(
+    __dirname,
+    "..",
+    "artifacts",
+    "src",
+    `${contractName}.sol`,
+    `${contractName}.json`,
+  );
+  if (!fs.existsSync(artifactPath)) {
+    // Fallback to old path structure (contracts directory)
+    artifactPath = path.join(
+      __dirname,
+      "..",
+      "artifacts",
+      "contracts",
+      `${contractName}.sol`,
+      `${contractName}.json`,
+    );
+  }
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(
+      `${contractName} artifact not found, run "npx hardhat compile" first`,
+    );
+  }
+  const contractABI: any[] = JSON.parse(
+    fs.readFileSync(artifactPath, "utf-8"),
+  ).abi;
+  const artifactSignatures = abiSignatures(contractABI).join("\n");
+
+  const addresses: Record<string, ChainRegistryEntry> = {};
+  const staleNetworks: string[] = [];
 
   // Process each network
   for (const network of networks) {
-    const deploymentFile = path.join(deploymentsDir, network, `${contractName}.json`);
-    
+    const deploymentFile = path.join(
+      deploymentsDir,
+      network,
+      `${contractName}.json`,
+    );
+
     if (!fs.existsSync(deploymentFile)) {
       console.log(`Skipping ${network}: ${contractName} not deployed`);
       continue;
     }
 
+    let deployment: any;
     try {
-      const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf-8"));
-      const chainId = chainIdMap[network] || deployment.chainId;
-      
-      if (!chainId) {
-        console.log(`Skipping ${network}: chainId not found`);
-        continue;
-      }
-
-      const address = deployment.address as `0x${string}`;
-      const chainName = chainNameMap[network] || network;
-
-      addresses[chainId.toString()] = {
-        address,
-        chainId,
-        chainName,
-      };
-
-      // Get ABI from deployment if not already set
-      if (contractABI.length === 0 && deployment.abi) {
-        contractABI = deployment.abi;
-      }
-
-      console.log(`Found deployment on ${network} (chainId: ${chainId}): ${address}`);
+      deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf-8"));
     } catch (error) {
       console.error(`Error reading deployment for ${network}:`, error);
+      continue;
     }
-  }
 
-  // If no ABI found in deployments, try to read from artifacts
-  if (contractABI.length === 0) {
-    // Try new path structure (src directory)
-    let artifactPath = path.join(__dirname, "..", "artifacts", "src", `${contractName}.sol`, `${contractName}.json`);
-    if (!fs.existsSync(artifactPath)) {
-      // Fallback to old path structure (contracts directory)
-      artifactPath = path.join(__dirname, "..", "artifacts", "contracts", `${contractName}.sol`, `${contractName}.json`);
+    if (
+      !deployment.abi ||
+      abiSignatures(deployment.abi).join("\n") !== artifactSignatures
+    ) {
+      staleNetworks.push(network);
+      continue;
     }
-    
-    try {
-      if (fs.existsSync(artifactPath)) {
-        const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
-        contractABI = artifact.abi;
-        console.log("ABI loaded from artifacts");
-      }
-    } catch (error) {
-      console.error("Error reading artifact:", error);
+
+    const chainId = chainIdMap[network] || deployment.chainId;
+
+    if (!chainId) {
+      console.log(`Skipping ${network}: chainId not found`);
+      continue;
     }
+
+    const address = deployment.address as `0x${string}`;
+    const chainName = chainNameMap[network] || network;
+
+    addresses[chainId.toString()] = {
+      address,
+      chainId,
+      deployBlock: deployment.receipt?.blockNumber,
+      chainName,
+      ...chainMetadataOf(network),
+    };
+
+    console.log(
+      `Found deployment on ${network} (chainId: ${chainId}): ${address}`,
+    );
+  }
+
+  if (staleNetworks.length > 0) {
+    throw new Error(
+      `The ${contractName} deployment on ${staleNetworks.join(", ")} does not match the compiled contract. ` +
+        `Redeploy (npx hardhat deploy --network <network>) or delete deployments/<network>/${contractName}.json.`,
+    );
   }
 
   // Generate ABI file
@@ -117,31 +203,46 @@ export const ${contractName}ABI = {
   console.log(`✓ Generated ABI file: ${abiFilePath}`);
 
   // Generate addresses file
-  const addressesFilePath = path.join(frontendAbiDir, `${contractName}Addresses.ts`);
-  
+  const addressesFilePath = path.join(
+    frontendAbiDir,
+    `${contractName}Addresses.ts`,
+  );
+
   // Preserve existing entries that are not in our deployment data
   const existingAddresses: Record<string, any> = {};
   if (fs.existsSync(addressesFilePath)) {
     try {
       const existingContent = fs.readFileSync(addressesFilePath, "utf-8");
       // Extract existing addresses using regex (simple approach)
-      const chainIdRegex = /"(\d+)":\s*\{[^}]*address:\s*(undefined|0x[a-fA-F0-9]+)/g;
+      const chainIdRegex =
+        /"(\d+)":\s*\{[^}]*address:\s*(undefined|0x[a-fA-F0-9]+)/g;
       let match;
       while ((match = chainIdRegex.exec(existingContent)) !== null) {
         const chainId = match[1];
         if (!addresses[chainId]) {
           // Try to preserve existing structure
-          const chainNameMatch = existingContent.match(new RegExp(`"${chainId}"[^}]*chainName:\\s*"([^"]+)"`));
-          const addressMatch = existingContent.match(new RegExp(`"${chainId}"[^}]*address:\\s*(undefined|0x[a-fA-F0-9]+)`));
+          const chainNameMatch = existingContent.match(
+            new RegExp(`"${chainId}"[^}]*chainName:\\s*"([^"]+)"`),
+          );
+          const addressMatch = existingContent.match(
+            new RegExp(
+              `"${chainId}"[^}]*address:\\s*(undefined|0x[a-fA-F0-9]+)`,
+            ),
+          );
           existingAddresses[chainId] = {
-            address: addressMatch && addressMatch[1] !== "undefined" ? addressMatch[1] : undefined,
+            address:
+              addressMatch && addressMatch[1] !== "undefined"
+                ? addressMatch[1]
+                : undefined,
             chainId: parseInt(chainId),
             chainName: chainNameMatch ? chainNameMatch[1] : `Chain ${chainId}`,
           };
         }
       }
     } catch (error) {
-      console.warn("Could not parse existing addresses file, will create new one");
+      console.warn(
+        "Could not parse existing addresses file, will create new one",
+      );
     }
   }
 
@@ -154,6 +255,7 @@ export const ${contractName}ABI = {
       address: undefined,
       chainId: 11155111,
       chainName: "Sepolia",
+      ...chainMetadataOf("sepolia"),
     };
   }
 
@@ -164,15 +266,27 @@ export const ${contractName}ABI = {
       address: undefined,
       chainId: 31337,
       chainName: "Hardhat Local",
+      ...chainMetadataOf("hardhat"),
     };
   } else if (!allAddresses["31337"].chainName) {
     // Update chainName if address exists but chainName is missing
-    allAddresses["31337"].chainName = allAddresses["31337"].chainName || "Hardhat Local";
+    allAddresses["31337"].chainName =
+      allAddresses["31337"].chainName || "Hardhat Local";
   }
 
   const addressesContent = `// Contract addresses by chain ID
 // This file is automatically generated from deployment artifacts
-export const ${contractName}Addresses: Record<string, { address?: \`0x\${string}\`; chainId?: number; chainName?: string }> = ${JSON.stringify(allAddresses, null, 2)};
+export type ${contractName}ChainInfo = {
+  address?: \`0x\${string}\`;
+  chainId?: number;
+  deployBlock?: number;
+  chainName?: string;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+};
+
+export const ${contractName}Addresses: Record<string, ${contractName}ChainInfo> = ${JSON.stringify(allAddresses, null, 2)};
 `;
 
   fs.writeFileSync(addressesFilePath, addressesContent, "utf-8");
@@ -182,7 +296,9 @@ export const ${contractName}Addresses: Record<string, { address?: \`0x\${string}
   console.log("\n=== Summary ===");
   console.log(`Networks processed: ${networks.length}`);
   console.log(`Addresses found: ${Object.keys(addresses).length}`);
-  console.log(`ABI functions: ${contractABI.filter((item) => item.type === "function").length}`);
+  console.log(
+    `ABI functions: ${contractABI.filter((item) => item.type === "function").length}`,
+  );
 }
 
 // Run the script
@@ -199,4 +315,3 @@ if (require.main === module) {
 }
 
 export default generateFrontendABI;
-
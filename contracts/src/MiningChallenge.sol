@@ -1,141 +1,773 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint32, euint64, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
+/// @notice Minimal ERC-20 surface used for reward escrow and payouts
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
 /// @title Mining Challenge - Privacy-Preserving Mining DApp
 /// @notice A DApp that allows players to mine resources with encrypted amounts.
 /// The total mining amount, rankings, and rewards are computed on encrypted data.
 contract MiningChallenge is ZamaEthereumConfig {
-    // Player mining data structure
+    // Player mining data structure (one per player per season)
     struct PlayerData {
-        euint32 totalMined;      // Encrypted total mined amount
+        euint64 totalMined;      // Encrypted total mined amount (64-bit so sums of 32-bit mines cannot wrap)
         bool exists;              // Whether player has mined before
         uint256 lastMineTime;    // Last mining timestamp
     }
 
-    // Mapping from player address to their encrypted mining data
-    mapping(address => PlayerData) public players;
+    // Role allowed to change game settings and start seasons
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    // Role allowed to publish the reward schedule and allocate rewards
+    bytes32 public constant REWARD_MANAGER_ROLE = keccak256("REWARD_MANAGER_ROLE");
+
+    // Role allowed to pause and unpause the game
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    // Paginated rank computation state (one job per caller)
+    struct RankJob {
+        uint256 seasonId;        // Season being ranked
+        uint256 nextIndex;       // Next index into the season's player addresses
+        uint256 endIndex;        // Player count snapshot taken when the job started
+        euint64 myAmount;        // Caller's total snapshot taken when the job started
+        euint32 count;           // Encrypted running count of players with a higher total
+        bool active;             // Whether the job is started and not finished yet
+    }
+
+    // Paginated team rank computation state (one job per caller)
+    struct TeamRankJob {
+        uint256 seasonId;        // Season being ranked
+        uint256 teamId;          // Caller's team when the job started
+        uint256 nextIndex;       // Next index into the season's team ids
+        uint256 endIndex;        // Team count snapshot taken when the job started
+        euint64 teamAmount;      // Team total snapshot taken when the job started
+        euint32 count;           // Encrypted running count of teams with a higher total
+        bool active;             // Whether the job is started and not finished yet
+    }
+
+    // Most recent rank computed for a player
+    struct LastRank {
+        euint32 rank;            // Encrypted rank, decryptable by the player
+        uint256 seasonId;        // Season the rank was computed in
+        uint256 calculatedAt;    // Block timestamp of the computation
+    }
+
+    // Team (guild) data structure; ids start at 1
+    struct Team {
+        string name;             // Display name chosen by the creator
+        address leader;          // Member allowed to invite players
+        address[] members;       // Current members, leader included
+    }
+
+    // Largest page accepted by processRankPage(), keeps each transaction well below the block gas limit
+    uint256 public constant MAX_RANK_PAGE_SIZE = 50;
+
+    // Largest page returned by getPlayersPage(), keeps the eth_call response small
+    uint256 public constant MAX_PLAYERS_PAGE_SIZE = 100;
+
+    // Contract owner (implicitly holds every role and manages role membership)
+    address public owner;
+
+    // Account nominated by the owner, must call acceptOwnership() to become owner
+    address public pendingOwner;
+
+    // Role => account => whether the account holds the role
+    mapping(bytes32 => mapping(address => bool)) private _roles;
 
-    // Array to store all player addresses for ranking
-    address[] public playerAddresses;
+    // Whether mining and rank computation are stopped
+    bool public paused;
+
+    // Player address => their in-progress rank computation
+    mapping(address => RankJob) public rankJobs;
+
+    // Player address => their latest computed rank
+    mapping(address => LastRank) private lastRanks;
+
+    // Id of the season currently accepting mines (starts at 1)
+    uint256 public currentSeason;
+
+    // Season id => start timestamp
+    mapping(uint256 => uint256) public seasonStartTime;
+
+    // Season id => player address => encrypted mining data
+    mapping(uint256 => mapping(address => PlayerData)) public seasonPlayers;
+
+    // Season id => all player addresses of that season, for ranking
+    mapping(uint256 => address[]) public seasonPlayerAddresses;
+
+    // Season id => total encrypted amount mined by all players in that season
+    mapping(uint256 => euint64) public seasonTotalMinedAmount;
 
     // Reward token address (optional, can be zero address)
     address public rewardToken;
 
+    // Published reward schedule: token amount per rank position (index 0 = rank #1)
+    uint256[] public rewardSchedule;
+
+    // Escrowed reward tokens that are not allocated to any player yet
+    uint256 public rewardPool;
+
+    // Reward tokens allocated to players but not claimed yet
+    uint256 public totalClaimableRewards;
+
+    // Player address => allocated, unclaimed reward tokens
+    mapping(address => uint256) public claimableRewards;
+
+    // Season id => player address => whether the player was rewarded for that season
+    mapping(uint256 => mapping(address => bool)) public seasonPlayerRewarded;
+
+    // Season id => rank position => whether that position was paid out
+    mapping(uint256 => mapping(uint256 => bool)) public seasonRankRewarded;
+
     // Minimum time between mines (in seconds)
     uint256 public minMineInterval;
 
-    // Total encrypted amount mined by all players
-    euint32 public totalMinedAmount;
+    // Cap applied to a fresh deployment until an admin changes it
+    uint32 public constant DEFAULT_MAX_MINE_AMOUNT = 1000;
+
+    // Public upper bound of a single mine; larger encrypted inputs are clamped to it
+    uint32 public maxMineAmount;
+
+    // Yield bounds applied to a fresh deployment until an admin changes them
+    uint32 public constant DEFAULT_MIN_YIELD = 1;
+    uint32 public constant DEFAULT_MAX_YIELD = 100;
+
+    // Largest tool multiplier an admin can grant
+    uint32 public constant MAX_TOOL_MULTIPLIER = 10;
+
+    // Whether mines use an on-chain encrypted random yield (mineRandom) instead of a player-chosen amount (mine)
+    bool public randomYieldMode;
+
+    // Inclusive bounds of a random yield before the tool multiplier
+    uint32 public minYield;
+    uint32 public maxYield;
+
+    // Player address => tool multiplier applied to their random yields (0 and 1 both mean no bonus)
+    mapping(address => uint32) public toolMultiplier;
+
+    // Team size applied to a fresh deployment until an admin changes it
+    uint256 public constant DEFAULT_MAX_TEAM_SIZE = 5;
+
+    // Longest accepted team name, in bytes
+    uint256 public constant MAX_TEAM_NAME_LENGTH = 32;
+
+    // Maximum number of members per team
+    uint256 public maxTeamSize;
+
+    // Number of teams ever created (also the id of the latest team)
+    uint256 public teamCount;
+
+    // Team id => team data
+    mapping(uint256 => Team) private teams;
+
+    // Player address => id of the team they belong to (0 = no team)
+    mapping(address => uint256) public playerTeam;
+
+    // Team id => player address => whether the player has an open invite
+    mapping(uint256 => mapping(address => bool)) public teamInvites;
+
+    // Season id => team id => encrypted amount mined by the team's members in that season
+    mapping(uint256 => mapping(uint256 => euint64)) private seasonTeamTotals;
+
+    // Season id => ids of the teams that mined in that season, for ranking
+    mapping(uint256 => uint256[]) public seasonTeamIds;
+
+    // Player address => their in-progress team rank computation
+    mapping(address => TeamRankJob) public teamRankJobs;
+
+    // Errors
+    error NotOwner();
+    error NotPendingOwner();
+    error MissingRole(bytes32 role, address account);
+    error ContractPaused();
+    error ContractNotPaused();
+    error SeasonNotFound(uint256 seasonId);
+    error SeasonStillRunning(uint256 seasonId);
+    error AmountNotPositive();
+    error InvalidYieldRange(uint32 minYield, uint32 maxYield);
+    error MultiplierTooLarge(uint32 multiplier, uint32 maxMultiplier);
+    error TeamSizeNotPositive();
+    error RewardEscrowNotEmpty();
+    error RandomYieldModeOn();
+    error RandomYieldModeOff();
+    error MineCooldown(uint256 nextAllowed);
+    error PlayerNotFound(uint256 seasonId, address player);
+    error IndexOutOfBounds(uint256 index, uint256 length);
+    error NoActiveRankJob();
+    error InvalidPageSize(uint256 pageSize, uint256 maxPageSize);
+    error RankJobNotComplete(uint256 processed, uint256 total);
+    error AlreadyInTeam(address player);
+    error InvalidTeamName();
+    error NotTeamLeader();
+    error NoTeamInvite(uint256 teamId);
+    error TeamFull(uint256 teamId, uint256 maxTeamSize);
+    error NotInTeam();
+    error TeamNotFound(uint256 teamId);
+    error TeamHasNotMined(uint256 seasonId, uint256 teamId);
+    error RewardTokenNotSet();
+    error RankNotRewarded(uint256 rank);
+    error PlayerAlreadyRewarded(uint256 seasonId, address player);
+    error RankAlreadyRewarded(uint256 seasonId, uint256 rank);
+    error InsufficientRewardPool(uint256 amount, uint256 rewardPool);
+    error NoRewardToClaim();
+    error TokenTransferFailed();
 
     // Events
-    event PlayerMined(address indexed player, bytes32 encryptedAmount);
-    event RewardDistributed(address indexed player, uint256 amount);
+    event PlayerMined(address indexed player, uint256 indexed seasonId, bytes32 amountHandle, bytes32 totalHandle);
+    event RewardDistributed(uint256 indexed seasonId, address indexed player, uint256 rank, uint256 amount);
+    event RewardScheduleUpdated(uint256[] amounts);
+    event RewardsFunded(address indexed funder, uint256 amount);
+    event RewardClaimed(address indexed player, uint256 amount);
+    event SeasonStarted(uint256 indexed seasonId, uint256 startTime);
+    event RankJobStarted(address indexed player, uint256 indexed seasonId, uint256 playerCount);
+    event RankJobProgressed(address indexed player, uint256 processed, uint256 total);
+    event RankCalculated(address indexed player, uint256 indexed seasonId, bytes32 rankHandle);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event Paused(address account);
+    event Unpaused(address account);
+    event MinMineIntervalUpdated(uint256 previousInterval, uint256 newInterval);
+    event RewardTokenUpdated(address indexed previousToken, address indexed newToken);
+    event MaxMineAmountUpdated(uint32 previousAmount, uint32 newAmount);
+    event RandomYieldModeUpdated(bool enabled);
+    event YieldRangeUpdated(uint32 minYield, uint32 maxYield);
+    event ToolMultiplierUpdated(address indexed player, uint32 multiplier);
+    event MaxTeamSizeUpdated(uint256 previousSize, uint256 newSize);
+    event TeamCreated(uint256 indexed teamId, address indexed leader, string name);
+    event TeamInvited(uint256 indexed teamId, address indexed player, address indexed inviter);
+    event TeamJoined(uint256 indexed teamId, address indexed player);
+    event TeamLeft(uint256 indexed teamId, address indexed player);
+    event TeamRankJobStarted(address indexed player, uint256 indexed seasonId, uint256 indexed teamId, uint256 rankedTeamCount);
+    event TeamRankJobProgressed(address indexed player, uint256 processed, uint256 total);
+    event TeamRankCalculated(address indexed player, uint256 indexed seasonId, uint256 indexed teamId, bytes32 rankHandle);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        if (!hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (paused) revert ContractPaused();
+        _;
+    }
+
+    modifier seasonExists(uint256 seasonId) {
+        if (seasonId == 0 || seasonId > currentSeason) revert SeasonNotFound(seasonId);
+        _;
+    }
 
     /// @notice Constructor
     /// @param _rewardToken Address of the reward token contract (can be zero address)
     /// @param _minMineInterval Minimum time between mines in seconds
+    /// @dev The deployer becomes the owner and season 1 is started immediately.
     constructor(address _rewardToken, uint256 _minMineInterval) {
+        owner = msg.sender;
         rewardToken = _rewardToken;
         minMineInterval = _minMineInterval;
-        // Initialize totalMinedAmount to zero
-        totalMinedAmount = FHE.asEuint32(0);
+        maxMineAmount = DEFAULT_MAX_MINE_AMOUNT;
+        maxTeamSize = DEFAULT_MAX_TEAM_SIZE;
+        minYield = DEFAULT_MIN_YIELD;
+        maxYield = DEFAULT_MAX_YIELD;
+        emit OwnershipTransferred(address(0), msg.sender);
+        _startSeason();
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role The role identifier
+    /// @param account The account to check
+    /// @return Whether the account holds the role (the owner holds every role)
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return account == owner || _roles[role][account];
+    }
+
+    /// @notice Grant a role to an account
+    /// @param role The role identifier
+    /// @param account The account receiving the role
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        if (!_roles[role][account]) {
+            _roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Revoke a role from an account
+    /// @param role The role identifier
+    /// @param account The account losing the role
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        if (_roles[role][account]) {
+            _roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Start a two-step ownership transfer
+    /// @param newOwner The nominated owner, who must call acceptOwnership()
+    /// @dev Nominating the zero address cancels a pending transfer.
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Complete a two-step ownership transfer
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    /// @notice Stop mining and rank computation
+    function pause() external onlyRole(PAUSER_ROLE) {
+        if (paused) revert ContractPaused();
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume mining and rank computation
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        if (!paused) revert ContractNotPaused();
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Change the minimum time between two mines of the same player
+    /// @param newInterval The new interval in seconds
+    function setMinMineInterval(uint256 newInterval) external onlyRole(ADMIN_ROLE) {
+        emit MinMineIntervalUpdated(minMineInterval, newInterval);
+        minMineInterval = newInterval;
+    }
+
+    /// @notice Change the upper bound of a single mine
+    /// @param newAmount The new cap, must be positive
+    function setMaxMineAmount(uint32 newAmount) external onlyRole(ADMIN_ROLE) {
+        if (newAmount == 0) revert AmountNotPositive();
+        emit MaxMineAmountUpdated(maxMineAmount, newAmount);
+        maxMineAmount = newAmount;
+    }
+
+    /// @notice Switch between player-chosen amounts (mine) and on-chain random yields (mineRandom)
+    /// @param enabled Whether random yield mode is active
+    function setRandomYieldMode(bool enabled) external onlyRole(ADMIN_ROLE) {
+        randomYieldMode = enabled;
+        emit RandomYieldModeUpdated(enabled);
+    }
+
+    /// @notice Update the inclusive bounds of random yields
+    /// @param newMinYield Smallest possible yield
+    /// @param newMaxYield Largest possible yield before the tool multiplier
+    function setYieldRange(uint32 newMinYield, uint32 newMaxYield) external onlyRole(ADMIN_ROLE) {
+        // The range size (max - min + 1) must fit in a uint32
+        if (newMinYield > newMaxYield || newMaxYield - newMinYield == type(uint32).max) {
+            revert InvalidYieldRange(newMinYield, newMaxYield);
+        }
+        minYield = newMinYield;
+        maxYield = newMaxYield;
+        emit YieldRangeUpdated(newMinYield, newMaxYield);
+    }
+
+    /// @notice Give a player a mining tool that multiplies their random yields
+    /// @param player The player receiving the tool
+    /// @param multiplier The yield multiplier (0 or 1 removes the bonus, at most MAX_TOOL_MULTIPLIER)
+    function setToolMultiplier(address player, uint32 multiplier) external onlyRole(ADMIN_ROLE) {
+        if (multiplier > MAX_TOOL_MULTIPLIER) revert MultiplierTooLarge(multiplier, MAX_TOOL_MULTIPLIER);
+        toolMultiplier[player] = multiplier;
+        emit ToolMultiplierUpdated(player, multiplier);
+    }
+
+    /// @notice Update the maximum number of members per team
+    /// @param newSize The new team cap (teams already above it keep their members but cannot grow)
+    function setMaxTeamSize(uint256 newSize) external onlyRole(ADMIN_ROLE) {
+        if (newSize == 0) revert TeamSizeNotPositive();
+        emit MaxTeamSizeUpdated(maxTeamSize, newSize);
+        maxTeamSize = newSize;
+    }
+
+    /// @notice Change the reward token
+    /// @param newToken The new reward token address (can be zero address)
+    /// @dev Only allowed while no tokens are escrowed or owed, so no balance is stranded.
+    function setRewardToken(address newToken) external onlyRole(ADMIN_ROLE) {
+        if (rewardPool != 0 || totalClaimableRewards != 0) revert RewardEscrowNotEmpty();
+        emit RewardTokenUpdated(rewardToken, newToken);
+        rewardToken = newToken;
+    }
+
+    /// @notice Close the current season and open a new one with an empty leaderboard
+    /// @return seasonId The id of the newly started season
+    /// @dev Past seasons stay readable; players keep ACL access to their archived handles.
+    function startNewSeason() external onlyRole(ADMIN_ROLE) returns (uint256 seasonId) {
+        return _startSeason();
+    }
+
+    function _startSeason() private returns (uint256 seasonId) {
+        seasonId = currentSeason + 1;
+        currentSeason = seasonId;
+        seasonStartTime[seasonId] = block.timestamp;
+
+        // Initialize the season total to zero
+        seasonTotalMinedAmount[seasonId] = FHE.asEuint64(0);
+        FHE.allowThis(seasonTotalMinedAmount[seasonId]);
+
+        emit SeasonStarted(seasonId, block.timestamp);
     }
 
     /// @notice Mine resources with encrypted amount
     /// @param encryptedAmount The encrypted amount of resources mined
     /// @param inputProof The input proof for the encrypted amount
-    function mine(externalEuint32 encryptedAmount, bytes calldata inputProof) external {
+    function mine(externalEuint32 encryptedAmount, bytes calldata inputProof) external whenNotPaused {
+        if (randomYieldMode) revert RandomYieldModeOn();
+
         // Convert external encrypted input to internal encrypted type
         euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
 
-        // Ensure this contract has FHE compute permissions on the freshly verified input,
+        // Clamp to the per-mine cap homomorphically: oversized inputs count as maxMineAmount
+        // and the submitted value is never revealed
+        amount = FHE.min(amount, maxMineAmount);
+
+        // Widen to 64 bits before accumulating into the totals
+        _creditMine(FHE.asEuint64(amount));
+    }
+
+    /// @notice Mine for an encrypted random yield generated on-chain
+    /// @dev Only available in random yield mode. The yield is uniform-ish in [minYield, maxYield]
+    /// (reduced modulo the range size, so very large ranges carry a slight bias) and is then
+    /// multiplied by the caller's tool multiplier. The player learns it only by decrypting the
+    /// amount handle emitted in PlayerMined.
+    function mineRandom() external whenNotPaused {
+        if (!randomYieldMode) revert RandomYieldModeOff();
+
+        uint32 range = maxYield - minYield + 1;
+        euint32 roll = FHE.add(FHE.rem(FHE.randEuint32(), range), minYield);
+
+        // Widen before applying the multiplier so the product cannot wrap
+        euint64 yield64 = FHE.asEuint64(roll);
+        uint32 multiplier = toolMultiplier[msg.sender];
+        if (multiplier > 1) {
+            yield64 = FHE.mul(yield64, uint64(multiplier));
+        }
+
+        _creditMine(yield64);
+    }
+
+    /// @dev Credits an already bounded encrypted amount to the caller's season, team and player totals
+    function _creditMine(euint64 amount64) private {
+        // Ensure this contract has FHE compute permissions on the new amount,
         // avoiding ACLNotAllowed() in multi-user scenarios.
-        FHE.allowThis(amount);
+        FHE.allowThis(amount64);
+        // Let the player decrypt the amount credited by this mine (emitted in PlayerMined)
+        FHE.allow(amount64, msg.sender);
+
+        uint256 seasonId = currentSeason;
+        PlayerData storage player = seasonPlayers[seasonId][msg.sender];
 
         // Check minimum mine interval
-        if (players[msg.sender].exists) {
-            require(
-                block.timestamp >= players[msg.sender].lastMineTime + minMineInterval,
-                "MiningChallenge: Too soon to mine again"
-            );
+        if (player.exists && block.timestamp < player.lastMineTime + minMineInterval) {
+            revert MineCooldown(player.lastMineTime + minMineInterval);
         }
 
         // Update player data
-        if (!players[msg.sender].exists) {
-            players[msg.sender].exists = true;
-            players[msg.sender].totalMined = FHE.asEuint32(0);
-            playerAddresses.push(msg.sender);
+        if (!player.exists) {
+            player.exists = true;
+            player.totalMined = FHE.asEuint64(0);
+            seasonPlayerAddresses[seasonId].push(msg.sender);
         }
 
-        // Add to player's total (encrypted addition)
-        players[msg.sender].totalMined = FHE.add(players[msg.sender].totalMined, amount);
+        // Add to player's season total (encrypted addition)
+        player.totalMined = FHE.add(player.totalMined, amount64);
 
-        // Update global total (encrypted addition)
-        totalMinedAmount = FHE.add(totalMinedAmount, amount);
-        // Ensure the global total remains allowed for this contract in future FHE operations
-        FHE.allowThis(totalMinedAmount);
+        // Update season total (encrypted addition)
+        seasonTotalMinedAmount[seasonId] = FHE.add(seasonTotalMinedAmount[seasonId], amount64);
+        // Ensure the season total remains allowed for this contract in future FHE operations
+        FHE.allowThis(seasonTotalMinedAmount[seasonId]);
 
         // Update last mine time
-        players[msg.sender].lastMineTime = block.timestamp;
+        player.lastMineTime = block.timestamp;
 
         // Grant ACL permissions for the player to decrypt their own total
-        FHE.allowThis(players[msg.sender].totalMined);
-        FHE.allow(players[msg.sender].totalMined, msg.sender);
+        FHE.allowThis(player.totalMined);
+        FHE.allow(player.totalMined, msg.sender);
+
+        // Credit the player's team, if any
+        uint256 teamId = playerTeam[msg.sender];
+        if (teamId != 0) {
+            _addToTeamTotal(seasonId, teamId, amount64);
+        }
 
-        // Emit event (encrypted amount as bytes32 for event)
-        emit PlayerMined(msg.sender, bytes32(uint256(0))); // Placeholder, actual encrypted data not directly emit-able
+        // Emit the per-mine and running-total handles so the player can rebuild their mining history
+        emit PlayerMined(msg.sender, seasonId, FHE.toBytes32(amount64), FHE.toBytes32(player.totalMined));
     }
 
-    /// @notice Get player's encrypted total mined amount
+    /// @notice Get player's encrypted total mined amount in the current season
     /// @param player Address of the player
     /// @return The encrypted total mined amount
-    function getPlayerTotalMined(address player) external view returns (euint32) {
-        require(players[player].exists, "MiningChallenge: Player does not exist");
-        return players[player].totalMined;
+    function getPlayerTotalMined(address player) external view returns (euint64) {
+        return getSeasonPlayerTotalMined(currentSeason, player);
     }
 
-    /// @notice Get the encrypted total amount mined by all players
+    /// @notice Get player's encrypted total mined amount in a given season
+    /// @param seasonId The season id
+    /// @param player Address of the player
+    /// @return The encrypted total mined amount
+    function getSeasonPlayerTotalMined(
+        uint256 seasonId,
+        address player
+    ) public view seasonExists(seasonId) returns (euint64) {
+        if (!seasonPlayers[seasonId][player].exists) revert PlayerNotFound(seasonId, player);
+        return seasonPlayers[seasonId][player].totalMined;
+    }
+
+    /// @notice Get the encrypted total amount mined by all players in the current season
     /// @return The encrypted total amount
-    function getTotalMinedAmount() external view returns (euint32) {
-        return totalMinedAmount;
+    function getTotalMinedAmount() external view returns (euint64) {
+        return getSeasonTotalMinedAmount(currentSeason);
     }
 
-    /// @notice Get the number of players
+    /// @notice Get the encrypted total amount mined by all players in a given season
+    /// @param seasonId The season id
+    /// @return The encrypted total amount
+    function getSeasonTotalMinedAmount(uint256 seasonId) public view seasonExists(seasonId) returns (euint64) {
+        return seasonTotalMinedAmount[seasonId];
+    }
+
+    /// @notice Get the number of players in the current season
     /// @return The number of players who have mined
     function getPlayerCount() external view returns (uint256) {
-        return playerAddresses.length;
+        return getSeasonPlayerCount(currentSeason);
+    }
+
+    /// @notice Get the number of players in a given season
+    /// @param seasonId The season id
+    /// @return The number of players who have mined in that season
+    function getSeasonPlayerCount(uint256 seasonId) public view seasonExists(seasonId) returns (uint256) {
+        return seasonPlayerAddresses[seasonId].length;
     }
 
-    /// @notice Get player address by index
-    /// @param index The index in the playerAddresses array
+    /// @notice Get player address by index in the current season
+    /// @param index The index in the season's player addresses array
     /// @return The player address at the given index
     function getPlayerAddress(uint256 index) external view returns (address) {
-        require(index < playerAddresses.length, "MiningChallenge: Index out of bounds");
-        return playerAddresses[index];
+        return getSeasonPlayerAddress(currentSeason, index);
+    }
+
+    /// @notice Get player address by index in a given season
+    /// @param seasonId The season id
+    /// @param index The index in the season's player addresses array
+    /// @return The player address at the given index
+    function getSeasonPlayerAddress(
+        uint256 seasonId,
+        uint256 index
+    ) public view seasonExists(seasonId) returns (address) {
+        uint256 length = seasonPlayerAddresses[seasonId].length;
+        if (index >= length) revert IndexOutOfBounds(index, length);
+        return seasonPlayerAddresses[seasonId][index];
+    }
+
+    /// @notice Get a page of the current season's players in joining order
+    /// @param offset Index of the first player of the page
+    /// @param limit Maximum number of players to return (1 to MAX_PLAYERS_PAGE_SIZE)
+    /// @return players Player addresses
+    /// @return lastMineTimes Last mining timestamp of each player
+    /// @return exists Whether each player has mined in the season
+    function getPlayersPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory players, uint256[] memory lastMineTimes, bool[] memory exists) {
+        return getSeasonPlayersPage(currentSeason, offset, limit);
+    }
+
+    /// @notice Get a page of a season's players in joining order
+    /// @param seasonId The season id
+    /// @param offset Index of the first player of the page
+    /// @param limit Maximum number of players to return (1 to MAX_PLAYERS_PAGE_SIZE)
+    /// @return players Player addresses
+    /// @return lastMineTimes Last mining timestamp of each player
+    /// @return exists Whether each player has mined in the season
+    /// @dev Returns empty arrays once offset reaches the player count, so callers can page until a short page
+    function getSeasonPlayersPage(
+        uint256 seasonId,
+        uint256 offset,
+        uint256 limit
+    )
+        public
+        view
+        seasonExists(seasonId)
+        returns (address[] memory players, uint256[] memory lastMineTimes, bool[] memory exists)
+    {
+        if (limit == 0 || limit > MAX_PLAYERS_PAGE_SIZE) revert InvalidPageSize(limit, MAX_PLAYERS_PAGE_SIZE);
+
+        address[] storage playerAddresses = seasonPlayerAddresses[seasonId];
+        uint256 length = playerAddresses.length;
+        uint256 count = 0;
+        if (offset < length) {
+            count = length - offset < limit ? length - offset : limit;
+        }
+
+        players = new address[](count);
+        lastMineTimes = new uint256[](count);
+        exists = new bool[](count);
+        for (uint256 i = 0; i < count; i++) {
+            address player = playerAddresses[offset + i];
+            PlayerData storage data = seasonPlayers[seasonId][player];
+            players[i] = player;
+            lastMineTimes[i] = data.lastMineTime;
+            exists[i] = data.exists;
+        }
     }
 
-    /// @notice Calculate the encrypted rank of the caller
+    /// @notice Calculate the encrypted rank of the caller in the current season
     /// @return rankEnc The encrypted rank (number of players with higher scores + 1)
-    /// @dev This function computes the rank by counting how many players have higher scores.
+    function calculateMyRank() external returns (euint32 rankEnc) {
+        return calculateMySeasonRank(currentSeason);
+    }
+
+    /// @notice Calculate the encrypted rank of the caller in a given season
+    /// @param seasonId The season id
+    /// @return rankEnc The encrypted rank (number of players with higher scores + 1)
+    /// @dev This function computes the rank by counting how many players have higher scores,
+    /// comparing against every player in one transaction. Use the rank job functions
+    /// (startRankJob / processRankPage / finishRankJob) once the season has too many players.
+    /// Returns encrypted rank that only the caller can decrypt.
+    function calculateMySeasonRank(
+        uint256 seasonId
+    ) public whenNotPaused seasonExists(seasonId) returns (euint32 rankEnc) {
+        if (!seasonPlayers[seasonId][msg.sender].exists) revert PlayerNotFound(seasonId, msg.sender);
+
+        euint32 count = FHE.asEuint32(0); // Start with 0 (count of players with higher scores)
+
+        // Iterate through all players of the season and count how many have higher scores
+        count = _countHigherTotals(
+            seasonId,
+            seasonPlayers[seasonId][msg.sender].totalMined,
+            count,
+            0,
+            seasonPlayerAddresses[seasonId].length
+        );
+
+        // Rank is count + 1 (if 0 players have higher scores, rank is 1)
+        rankEnc = FHE.add(count, FHE.asEuint32(1));
+
+        _recordRank(seasonId, rankEnc);
+
+        return rankEnc;
+    }
+
+    /// @notice Start (or restart) a paginated rank computation for the caller
+    /// @param seasonId The season to rank in
+    /// @dev For leaderboards too large for calculateMySeasonRank() in one transaction:
+    /// call processRankPage() until every player is processed, then finishRankJob().
+    /// The player set and the caller's total are snapshotted here; players joining later are not counted.
+    function startRankJob(uint256 seasonId) external whenNotPaused seasonExists(seasonId) {
+        PlayerData storage player = seasonPlayers[seasonId][msg.sender];
+        if (!player.exists) revert PlayerNotFound(seasonId, msg.sender);
+
+        euint32 count = FHE.asEuint32(0);
+        FHE.allowThis(count);
+
+        uint256 playerCount = seasonPlayerAddresses[seasonId].length;
+        rankJobs[msg.sender] = RankJob({
+            seasonId: seasonId,
+            nextIndex: 0,
+            endIndex: playerCount,
+            myAmount: player.totalMined,
+            count: count,
+            active: true
+        });
+
+        emit RankJobStarted(msg.sender, seasonId, playerCount);
+    }
+
+    /// @notice Compare the caller against the next page of players of their rank job
+    /// @param pageSize Maximum number of players to process (1 to MAX_RANK_PAGE_SIZE)
+    /// @return processed Number of players processed so far
+    /// @return total Number of players the job has to process
+    function processRankPage(uint256 pageSize) external whenNotPaused returns (uint256 processed, uint256 total) {
+        RankJob storage job = rankJobs[msg.sender];
+        if (!job.active) revert NoActiveRankJob();
+        if (pageSize == 0 || pageSize > MAX_RANK_PAGE_SIZE) revert InvalidPageSize(pageSize, MAX_RANK_PAGE_SIZE);
+
+        total = job.endIndex;
+        processed = job.nextIndex + pageSize;
+        if (processed > total) {
+            processed = total;
+        }
+
+        euint32 count = _countHigherTotals(job.seasonId, job.myAmount, job.count, job.nextIndex, processed);
+        // Keep the running count usable by the next page
+        FHE.allowThis(count);
+
+        job.count = count;
+        job.nextIndex = processed;
+
+        emit RankJobProgressed(msg.sender, processed, total);
+    }
+
+    /// @notice Turn a fully processed rank job into the caller's encrypted rank
+    /// @return rankEnc The encrypted rank (number of players with higher scores + 1)
+    function finishRankJob() external whenNotPaused returns (euint32 rankEnc) {
+        RankJob storage job = rankJobs[msg.sender];
+        if (!job.active) revert NoActiveRankJob();
+        if (job.nextIndex != job.endIndex) revert RankJobNotComplete(job.nextIndex, job.endIndex);
+
+        rankEnc = FHE.add(job.count, FHE.asEuint32(1));
+
+        _recordRank(job.seasonId, rankEnc);
+
+        delete rankJobs[msg.sender];
+
+        return rankEnc;
+    }
+
+    /// @notice Get the caller's most recently computed rank
+    /// @return rank The encrypted rank handle (zero if never computed)
+    /// @return seasonId The season the rank was computed in
+    /// @return calculatedAt Timestamp of the computation
+    function getMyLastRank() external view returns (euint32 rank, uint256 seasonId, uint256 calculatedAt) {
+        LastRank storage lastRank = lastRanks[msg.sender];
+        return (lastRank.rank, lastRank.seasonId, lastRank.calculatedAt);
+    }
+
+    /// @dev Stores `rankEnc` as the caller's latest rank and grants the ACL needed to decrypt it later
+    function _recordRank(uint256 seasonId, euint32 rankEnc) private {
+        // Grant ACL permissions for the caller to decrypt their own rank
+        FHE.allowThis(rankEnc);
+        FHE.allow(rankEnc, msg.sender);
+
+        lastRanks[msg.sender] = LastRank({rank: rankEnc, seasonId: seasonId, calculatedAt: block.timestamp});
+
+        emit RankCalculated(msg.sender, seasonId, FHE.toBytes32(rankEnc));
+    }
+
+    /// @dev Adds to `count` the number of season players in [from, to) whose total is higher than `myAmount`.
     /// All operations are performed in the encrypted domain:
     /// - Uses FHE.gt() to compare encrypted amounts
     /// - Uses FHE.select() to conditionally add 1 to the count
-    /// - Returns encrypted rank that only the caller can decrypt
-    function calculateMyRank() external returns (euint32 rankEnc) {
-        require(players[msg.sender].exists, "MiningChallenge: Player does not exist");
-        
-        euint32 myAmount = players[msg.sender].totalMined;
-        euint32 count = FHE.asEuint32(0); // Start with 0 (count of players with higher scores)
-        
-        // Iterate through all players and count how many have higher scores
-        uint256 length = playerAddresses.length;
-        for (uint256 i = 0; i < length; i++) {
+    function _countHigherTotals(
+        uint256 seasonId,
+        euint64 myAmount,
+        euint32 count,
+        uint256 from,
+        uint256 to
+    ) private returns (euint32) {
+        mapping(address => PlayerData) storage players = seasonPlayers[seasonId];
+        address[] storage playerAddresses = seasonPlayerAddresses[seasonId];
+
+        for (uint256 i = from; i < to; i++) {
             address otherPlayer = playerAddresses[i];
             if (otherPlayer != msg.sender) {
-                euint32 otherAmount = players[otherPlayer].totalMined;
+                euint64 otherAmount = players[otherPlayer].totalMined;
                 // Compare: if otherAmount > myAmount, then add 1 to count
                 ebool isGreater = FHE.gt(otherAmount, myAmount);
                 // FHE.select(condition, valueIfTrue, valueIfFalse)
@@ -144,50 +776,323 @@ contract MiningChallenge is ZamaEthereumConfig {
                 count = FHE.add(count, increment);
             }
         }
-        
-        // Rank is count + 1 (if 0 players have higher scores, rank is 1)
-        rankEnc = FHE.add(count, FHE.asEuint32(1));
-        
-        // Grant ACL permissions for the caller to decrypt their own rank
+
+        return count;
+    }
+
+    /// @notice Create a team led by the caller
+    /// @param name Display name of the team (1 to MAX_TEAM_NAME_LENGTH bytes)
+    /// @return teamId Id of the new team
+    function createTeam(string calldata name) external whenNotPaused returns (uint256 teamId) {
+        if (playerTeam[msg.sender] != 0) revert AlreadyInTeam(msg.sender);
+        if (bytes(name).length == 0 || bytes(name).length > MAX_TEAM_NAME_LENGTH) revert InvalidTeamName();
+
+        teamId = ++teamCount;
+        Team storage team = teams[teamId];
+        team.name = name;
+        team.leader = msg.sender;
+        team.members.push(msg.sender);
+        playerTeam[msg.sender] = teamId;
+
+        emit TeamCreated(teamId, msg.sender, name);
+        emit TeamJoined(teamId, msg.sender);
+    }
+
+    /// @notice Invite a player to the caller's team
+    /// @param player The invited player, who must call acceptTeamInvite()
+    function inviteToTeam(address player) external whenNotPaused {
+        uint256 teamId = playerTeam[msg.sender];
+        if (teamId == 0 || teams[teamId].leader != msg.sender) revert NotTeamLeader();
+        if (playerTeam[player] != 0) revert AlreadyInTeam(player);
+
+        teamInvites[teamId][player] = true;
+
+        emit TeamInvited(teamId, player, msg.sender);
+    }
+
+    /// @notice Join a team the caller was invited to
+    /// @param teamId The inviting team
+    /// @dev The new member is granted access to the team's current season total right away;
+    /// later totals are granted to every member as they are updated in mine().
+    /// Joining a team every member left makes the joiner its leader, so the team can invite again.
+    function acceptTeamInvite(uint256 teamId) external whenNotPaused {
+        if (!teamInvites[teamId][msg.sender]) revert NoTeamInvite(teamId);
+        if (playerTeam[msg.sender] != 0) revert AlreadyInTeam(msg.sender);
+        Team storage team = teams[teamId];
+        if (team.members.length >= maxTeamSize) revert TeamFull(teamId, maxTeamSize);
+
+        delete teamInvites[teamId][msg.sender];
+        team.members.push(msg.sender);
+        playerTeam[msg.sender] = teamId;
+        if (team.leader == address(0)) {
+            team.leader = msg.sender;
+        }
+
+        euint64 total = seasonTeamTotals[currentSeason][teamId];
+        if (FHE.isInitialized(total)) {
+            FHE.allow(total, msg.sender);
+        }
+
+        emit TeamJoined(teamId, msg.sender);
+    }
+
+    /// @notice Leave the caller's team
+    /// @dev Leadership passes to the longest-standing remaining member. ACL grants cannot be revoked,
+    /// so a former member keeps access to team totals produced before they left, but not to later ones.
+    function leaveTeam() external {
+        uint256 teamId = playerTeam[msg.sender];
+        if (teamId == 0) revert NotInTeam();
+
+        Team storage team = teams[teamId];
+        address[] storage members = team.members;
+        uint256 length = members.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (members[i] == msg.sender) {
+                // Shift instead of swap-and-pop so members keep their join order
+                for (uint256 j = i; j + 1 < length; j++) {
+                    members[j] = members[j + 1];
+                }
+                members.pop();
+                break;
+            }
+        }
+        delete playerTeam[msg.sender];
+
+        if (team.leader == msg.sender) {
+            team.leader = members.length > 0 ? members[0] : address(0);
+        }
+
+        emit TeamLeft(teamId, msg.sender);
+    }
+
+    /// @notice Get a team's public data
+    /// @param teamId The team id
+    /// @return name Display name
+    /// @return leader Current leader (zero address while the team has no member)
+    /// @return members Current members
+    function getTeam(
+        uint256 teamId
+    ) external view returns (string memory name, address leader, address[] memory members) {
+        if (teamId == 0 || teamId > teamCount) revert TeamNotFound(teamId);
+        Team storage team = teams[teamId];
+        return (team.name, team.leader, team.members);
+    }
+
+    /// @notice Get a team's encrypted total in the current season
+    /// @param teamId The team id
+    /// @return The encrypted team total (zero handle if the team has not mined this season)
+    function getTeamTotalMined(uint256 teamId) external view returns (euint64) {
+        return seasonTeamTotals[currentSeason][teamId];
+    }
+
+    /// @notice Get a team's encrypted total in a given season
+    /// @param seasonId The season id
+    /// @param teamId The team id
+    /// @return The encrypted team total (zero handle if the team did not mine that season)
+    function getSeasonTeamTotalMined(
+        uint256 seasonId,
+        uint256 teamId
+    ) external view seasonExists(seasonId) returns (euint64) {
+        return seasonTeamTotals[seasonId][teamId];
+    }
+
+    /// @notice Get the number of teams that mined in a season
+    /// @param seasonId The season id
+    /// @return Number of ranked teams
+    function getSeasonTeamCount(uint256 seasonId) external view seasonExists(seasonId) returns (uint256) {
+        return seasonTeamIds[seasonId].length;
+    }
+
+    /// @notice Start (or restart) a paginated team rank computation for the caller
+    /// @param seasonId The season to rank in
+    /// @dev Call processTeamRankPage() until every team is processed, then finishTeamRankJob().
+    /// The team set and the team total are snapshotted here; teams mining for the first time later are not counted.
+    function startTeamRankJob(uint256 seasonId) external whenNotPaused seasonExists(seasonId) {
+        uint256 teamId = playerTeam[msg.sender];
+        if (teamId == 0) revert NotInTeam();
+        euint64 teamAmount = seasonTeamTotals[seasonId][teamId];
+        if (!FHE.isInitialized(teamAmount)) revert TeamHasNotMined(seasonId, teamId);
+
+        euint32 count = FHE.asEuint32(0);
+        FHE.allowThis(count);
+
+        uint256 rankedTeamCount = seasonTeamIds[seasonId].length;
+        teamRankJobs[msg.sender] = TeamRankJob({
+            seasonId: seasonId,
+            teamId: teamId,
+            nextIndex: 0,
+            endIndex: rankedTeamCount,
+            teamAmount: teamAmount,
+            count: count,
+            active: true
+        });
+
+        emit TeamRankJobStarted(msg.sender, seasonId, teamId, rankedTeamCount);
+    }
+
+    /// @notice Compare the caller's team against the next page of teams of their team rank job
+    /// @param pageSize Maximum number of teams to process (1 to MAX_RANK_PAGE_SIZE)
+    /// @return processed Number of teams processed so far
+    /// @return total Number of teams the job has to process
+    function processTeamRankPage(uint256 pageSize) external whenNotPaused returns (uint256 processed, uint256 total) {
+        TeamRankJob storage job = teamRankJobs[msg.sender];
+        if (!job.active) revert NoActiveRankJob();
+        if (pageSize == 0 || pageSize > MAX_RANK_PAGE_SIZE) revert InvalidPageSize(pageSize, MAX_RANK_PAGE_SIZE);
+
+        total = job.endIndex;
+        processed = job.nextIndex + pageSize;
+        if (processed > total) {
+            processed = total;
+        }
+
+        euint32 count = job.count;
+        uint256[] storage teamIds = seasonTeamIds[job.seasonId];
+        for (uint256 i = job.nextIndex; i < processed; i++) {
+            if (teamIds[i] != job.teamId) {
+                ebool isGreater = FHE.gt(seasonTeamTotals[job.seasonId][teamIds[i]], job.teamAmount);
+                count = FHE.add(count, FHE.select(isGreater, FHE.asEuint32(1), FHE.asEuint32(0)));
+            }
+        }
+        // Keep the running count usable by the next page
+        FHE.allowThis(count);
+
+        job.count = count;
+        job.nextIndex = processed;
+
+        emit TeamRankJobProgressed(msg.sender, processed, total);
+    }
+
+    /// @notice Turn a fully processed team rank job into the caller's encrypted team rank
+    /// @return rankEnc The encrypted team rank (number of teams with higher totals + 1)
+    function finishTeamRankJob() external whenNotPaused returns (euint32 rankEnc) {
+        TeamRankJob storage job = teamRankJobs[msg.sender];
+        if (!job.active) revert NoActiveRankJob();
+        if (job.nextIndex != job.endIndex) revert RankJobNotComplete(job.nextIndex, job.endIndex);
+
+        rankEnc = FHE.add(job.count, FHE.asEuint32(1));
         FHE.allowThis(rankEnc);
         FHE.allow(rankEnc, msg.sender);
-        
+
+        emit TeamRankCalculated(msg.sender, job.seasonId, job.teamId, FHE.toBytes32(rankEnc));
+
+        delete teamRankJobs[msg.sender];
+
         return rankEnc;
     }
 
-    /// @notice Distribute rewards based on ranking (simplified version)
+    /// @dev Adds a mined amount to a team's season total and grants every current member access to it
+    function _addToTeamTotal(uint256 seasonId, uint256 teamId, euint64 amount64) private {
+        euint64 total = seasonTeamTotals[seasonId][teamId];
+        if (FHE.isInitialized(total)) {
+            total = FHE.add(total, amount64);
+        } else {
+            total = amount64;
+            seasonTeamIds[seasonId].push(teamId);
+        }
+        seasonTeamTotals[seasonId][teamId] = total;
+
+        FHE.allowThis(total);
+        address[] storage members = teams[teamId].members;
+        for (uint256 i = 0; i < members.length; i++) {
+            FHE.allow(total, members[i]);
+        }
+    }
+
+    /// @notice Publish the reward schedule used for future payouts
+    /// @param amounts Token amount per rank position (index 0 = rank #1)
+    function setRewardSchedule(uint256[] calldata amounts) external onlyRole(REWARD_MANAGER_ROLE) {
+        rewardSchedule = amounts;
+        emit RewardScheduleUpdated(amounts);
+    }
+
+    /// @notice Get the full published reward schedule
+    /// @return The token amount per rank position (index 0 = rank #1)
+    function getRewardSchedule() external view returns (uint256[] memory) {
+        return rewardSchedule;
+    }
+
+    /// @notice Escrow reward tokens in the contract
+    /// @param amount Amount of reward tokens to pull from the caller
+    /// @dev The caller must have approved this contract for at least `amount` tokens.
+    function fundRewards(uint256 amount) external {
+        if (rewardToken == address(0)) revert RewardTokenNotSet();
+        if (amount == 0) revert AmountNotPositive();
+
+        rewardPool += amount;
+        _safeTransferFrom(msg.sender, address(this), amount);
+
+        emit RewardsFunded(msg.sender, amount);
+    }
+
+    /// @notice Allocate the scheduled reward of a rank position to a player of a finished season
+    /// @param seasonId The finished season being rewarded
     /// @param player Address of the player to reward
-    /// @param amount Amount of reward tokens to distribute
-    /// @dev This is a simplified reward function. In production, you would:
-    /// 1. Compute rankings using encrypted comparisons
-    /// 2. Distribute rewards based on encrypted rankings
-    /// 3. Use a more sophisticated reward mechanism
-    function distributeReward(address player, uint256 amount) external {
-        require(players[player].exists, "MiningChallenge: Player does not exist");
-        require(rewardToken != address(0), "MiningChallenge: Reward token not set");
-        
-        // In a real implementation, you would:
-        // 1. Verify the player's ranking using encrypted comparisons
-        // 2. Calculate reward based on encrypted ranking
-        // 3. Transfer tokens
-        
-        // For now, this is a placeholder that can be extended
-        emit RewardDistributed(player, amount);
-    }
-
-    /// @notice Check if a player exists
+    /// @param rank The player's rank in that season (1-based)
+    /// @dev Ranks stay encrypted on-chain: the owner pays out ranks that players revealed off-chain.
+    /// Every player and every rank position can be rewarded at most once per season.
+    /// Allocated tokens move from the escrow pool to the player's claimable balance.
+    function distributeReward(
+        uint256 seasonId,
+        address player,
+        uint256 rank
+    ) external onlyRole(REWARD_MANAGER_ROLE) seasonExists(seasonId) {
+        if (seasonId == currentSeason) revert SeasonStillRunning(seasonId);
+        if (!seasonPlayers[seasonId][player].exists) revert PlayerNotFound(seasonId, player);
+        if (rank == 0 || rank > rewardSchedule.length) revert RankNotRewarded(rank);
+        if (seasonPlayerRewarded[seasonId][player]) revert PlayerAlreadyRewarded(seasonId, player);
+        if (seasonRankRewarded[seasonId][rank]) revert RankAlreadyRewarded(seasonId, rank);
+
+        uint256 amount = rewardSchedule[rank - 1];
+        if (amount > rewardPool) revert InsufficientRewardPool(amount, rewardPool);
+
+        seasonPlayerRewarded[seasonId][player] = true;
+        seasonRankRewarded[seasonId][rank] = true;
+        rewardPool -= amount;
+        claimableRewards[player] += amount;
+        totalClaimableRewards += amount;
+
+        emit RewardDistributed(seasonId, player, rank, amount);
+    }
+
+    /// @notice Withdraw all reward tokens allocated to the caller
+    /// @return amount The amount of reward tokens transferred
+    function claimReward() external returns (uint256 amount) {
+        amount = claimableRewards[msg.sender];
+        if (amount == 0) revert NoRewardToClaim();
+
+        // Clear the balance before the external call so a reward can never be claimed twice
+        claimableRewards[msg.sender] = 0;
+        totalClaimableRewards -= amount;
+        _safeTransfer(msg.sender, amount);
+
+        emit RewardClaimed(msg.sender, amount);
+    }
+
+    function _safeTransfer(address to, uint256 amount) private {
+        (bool success, bytes memory data) = rewardToken.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+        if (!success || (data.length != 0 && !abi.decode(data, (bool)))) revert TokenTransferFailed();
+    }
+
+    function _safeTransferFrom(address from, address to, uint256 amount) private {
+        (bool success, bytes memory data) = rewardToken.call(
+            abi.encodeCall(IERC20.transferFrom, (from, to, amount))
+        );
+        if (!success || (data.length != 0 && !abi.decode(data, (bool)))) revert TokenTransferFailed();
+    }
+
+    /// @notice Check if a player exists in the current season
     /// @param player Address of the player
-    /// @return Whether the player has mined before
+    /// @return Whether the player has mined before in the current season
     function playerExists(address player) external view returns (bool) {
-        return players[player].exists;
+        return seasonPlayers[currentSeason][player].exists;
     }
 
-    /// @notice Get player's last mine time
+    /// @notice Get player's last mine time in the current season
     /// @param player Address of the player
     /// @return The timestamp of the last mine
     function getPlayerLastMineTime(address player) external view returns (uint256) {
-        require(players[player].exists, "MiningChallenge: Player does not exist");
-        return players[player].lastMineTime;
+        if (!seasonPlayers[currentSeason][player].exists) revert PlayerNotFound(currentSeason, player);
+        return seasonPlayers[currentSeason][player].lastMineTime;
     }
 }
 
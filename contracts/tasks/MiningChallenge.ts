@@ -0,0 +1,246 @@
+import "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import "hardhat-deploy";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { MiningChallenge__factory } from "../types";
+import { MiningChallengeClient } from "../../frontend/client/MiningChallengeClient";
+import { GenericStringInMemoryStorage } from "../../frontend/fhevm/GenericStringStorage";
+import type { FhevmInstance } from "../../frontend/fhevm/fhevmTypes";
+
+/**
+ * Usage (local mock, after `npx hardhat node` and `npx hardhat deploy --network localhost`):
+ *   npx hardhat --network localhost mining:info
+ *   npx hardhat --network localhost mining:mine --amount 10 --account 1
+ *   npx hardhat --network localhost mining:decrypt-total --account 1
+ *   npx hardhat --network localhost mining:rank --account 1
+ *   npx hardhat --network localhost mining:players
+ *
+ * The same commands work with `--network sepolia`. `--account` is a signer index or address.
+ * Mining, decryption, ranking and player listing go through the frontend's MiningChallengeClient,
+ * with the Hardhat plugin's `hre.fhevm` as FHEVM instance.
+ */
+
+async function getMiningChallenge(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+) {
+  const { deployments, ethers } = hre;
+  const deployment = address
+    ? { address }
+    : await deployments.get("MiningChallenge");
+  console.log(`MiningChallenge: ${deployment.address}`);
+  const contract = MiningChallenge__factory.connect(
+    deployment.address,
+    ethers.provider,
+  );
+  return { contract, address: deployment.address };
+}
+
+async function getSigner(
+  hre: HardhatRuntimeEnvironment,
+  account: string,
+): Promise<HardhatEthersSigner> {
+  const signers = await hre.ethers.getSigners();
+  if (/^\d+$/.test(account)) {
+    const signer = signers[Number(account)];
+    if (!signer) {
+      throw new Error(
+        `No signer at index ${account} (${signers.length} available)`,
+      );
+    }
+    return signer;
+  }
+  const signer = signers.find(
+    (s) => s.address.toLowerCase() === account.toLowerCase(),
+  );
+  if (!signer) {
+    throw new Error(`Account ${account} is not one of the configured signers`);
+  }
+  return signer;
+}
+
+async function getClient(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+  account: string,
+): Promise<MiningChallengeClient> {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+
+  const { address: contractAddress } = await getMiningChallenge(hre, address);
+  return new MiningChallengeClient({
+    instance: fhevm as unknown as FhevmInstance,
+    signer: await getSigner(hre, account),
+    storage: new GenericStringInMemoryStorage(),
+    address: contractAddress as `0x${string}`,
+  });
+}
+
+task("mining:info", "Prints the MiningChallenge settings and current season")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the MiningChallenge contract address",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getMiningChallenge(hre, taskArguments.address);
+
+    const [
+      currentSeason,
+      playerCount,
+      minMineInterval,
+      maxMineAmount,
+      randomYieldMode,
+      paused,
+      rewardToken,
+    ] = await Promise.all([
+      contract.currentSeason(),
+      contract.getPlayerCount(),
+      contract.minMineInterval(),
+      contract.maxMineAmount(),
+      contract.randomYieldMode(),
+      contract.paused(),
+      contract.rewardToken(),
+    ]);
+
+    console.log(`Current season   : ${currentSeason}`);
+    console.log(`Players (season) : ${playerCount}`);
+    console.log(`Min mine interval: ${minMineInterval}s`);
+    console.log(`Max mine amount  : ${maxMineAmount}`);
+    console.log(`Random yield mode: ${randomYieldMode}`);
+    console.log(`Paused           : ${paused}`);
+    if (rewardToken === hre.ethers.ZeroAddress) {
+      console.log(`Reward token     : none`);
+    } else {
+      const [rewardPool, schedule] = await Promise.all([
+        contract.rewardPool(),
+        contract.getRewardSchedule(),
+      ]);
+      console.log(`Reward token     : ${rewardToken}`);
+      console.log(`Reward pool      : ${rewardPool}`);
+      console.log(`Reward schedule  : ${schedule.join(", ") || "empty"}`);
+    }
+  });
+
+task(
+  "mining:mine",
+  "Mines resources (the amount is ignored in random yield mode)",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the MiningChallenge contract address",
+  )
+  .addOptionalParam("amount", "Amount to mine", undefined, types.int)
+  .addOptionalParam("account", "Signer index or address", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await getClient(
+      hre,
+      taskArguments.address,
+      taskArguments.account,
+    );
+
+    const receipt = await client.mine(taskArguments.amount, {
+      onSubmitted: (tx) => console.log(`Wait for tx:${tx.hash}...`),
+    });
+    console.log(`tx:${receipt?.hash} status=${receipt?.status}`);
+    console.log(
+      `${await client.getPlayerAddress()} mined in season ${await client.getCurrentSeason()}`,
+    );
+  });
+
+task("mining:decrypt-total", "Decrypts the season total of an account")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the MiningChallenge contract address",
+  )
+  .addOptionalParam("account", "Signer index or address", "0")
+  .addOptionalParam(
+    "season",
+    "Season id (defaults to the current season)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await getClient(
+      hre,
+      taskArguments.address,
+      taskArguments.account,
+    );
+    const player = await client.getPlayerAddress();
+    const seasonId = taskArguments.season ?? (await client.getCurrentSeason());
+
+    const encryptedTotal = await client.getTotalHandle(seasonId);
+    if (encryptedTotal === undefined) {
+      console.log(`${player} has not mined in season ${seasonId}`);
+      return;
+    }
+
+    const clearTotal = await client.decryptTotal(seasonId);
+    console.log(`Encrypted total: ${encryptedTotal}`);
+    console.log(`Clear total    : ${clearTotal}`);
+  });
+
+task(
+  "mining:rank",
+  "Computes an account's encrypted season rank with the paged rank job and decrypts it",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the MiningChallenge contract address",
+  )
+  .addOptionalParam("account", "Signer index or address", "0")
+  .addOptionalParam(
+    "season",
+    "Season id (defaults to the current season)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await getClient(
+      hre,
+      taskArguments.address,
+      taskArguments.account,
+    );
+    const seasonId = taskArguments.season ?? (await client.getCurrentSeason());
+
+    // Resumes an unfinished job for this season, otherwise starts a fresh one
+    const rankHandle = await client.calculateRank(seasonId, {
+      onProgress: (step, progress) => {
+        if (step === "page") {
+          console.log(
+            `Processing page ${progress.page}/${progress.totalPages}`,
+          );
+        }
+      },
+    });
+    const clearRank = await client.decryptRank(rankHandle);
+    console.log(`Encrypted rank: ${rankHandle}`);
+    console.log(
+      `Season ${seasonId} rank of ${await client.getPlayerAddress()}: #${clearRank}`,
+    );
+  });
+
+task("mining:players", "Lists the players of a season")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the MiningChallenge contract address",
+  )
+  .addOptionalParam(
+    "season",
+    "Season id (defaults to the current season)",
+    undefined,
+    types.int,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    // Reads only: any signer will do
+    const client = await getClient(hre, taskArguments.address, "0");
+    const seasonId = taskArguments.season ?? (await client.getCurrentSeason());
+
+    const players = await client.getPlayers(seasonId);
+    console.log(`Season ${seasonId}: ${players.length} player(s)`);
+    players.forEach((player, i) => {
+      const lastMined = new Date(player.lastMineTime * 1000).toISOString();
+      console.log(`${i + 1}. ${player.address} (last mined ${lastMined})`);
+    });
+  });
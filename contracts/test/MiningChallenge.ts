@@ -1,9 +1,15 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
-import { MiningChallenge, MiningChallenge__factory } from "../types";
+import {
+  MiningChallenge,
+  MiningChallenge__factory,
+  MockRewardToken,
+  MockRewardToken__factory,
+} from "../types";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -28,6 +34,28 @@ async function deployFixture() {
   return { miningChallenge, miningChallengeAddress };
 }
 
+async function deployRewardFixture() {
+  const tokenFactory = (await ethers.getContractFactory(
+    "MockRewardToken",
+  )) as MockRewardToken__factory;
+  const rewardToken = (await tokenFactory.deploy(
+    "Mining Reward",
+    "MINE",
+  )) as MockRewardToken;
+  const rewardTokenAddress = await rewardToken.getAddress();
+
+  const factory = (await ethers.getContractFactory(
+    "MiningChallenge",
+  )) as MiningChallenge__factory;
+  const miningChallenge = (await factory.deploy(
+    rewardTokenAddress,
+    10n,
+  )) as MiningChallenge;
+  const miningChallengeAddress = await miningChallenge.getAddress();
+
+  return { miningChallenge, miningChallengeAddress, rewardToken };
+}
+
 describe("MiningChallenge (FHE / ACL verification)", function () {
   let signers: Signers;
   let miningChallenge: MiningChallenge;
@@ -78,7 +106,7 @@ describe("MiningChallenge (FHE / ACL verification)", function () {
 
     // Decrypt locally with hardhat-fhevm to verify allow/allowThis ACL configuration
     const clearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       playerEncryptedTotal,
       miningChallengeAddress,
       signers.alice,
@@ -101,12 +129,17 @@ describe("MiningChallenge (FHE / ACL verification)", function () {
       .mine(encryptedAmount.handles[0], encryptedAmount.inputProof);
     await tx1.wait();
 
-    // Second immediate mining should hit the require because interval < minMineInterval
+    // Second immediate mining should revert because interval < minMineInterval, reporting when mining reopens
+    const nextAllowed =
+      (await miningChallenge.getPlayerLastMineTime(signers.alice.address)) +
+      (await miningChallenge.minMineInterval());
     await expect(
       miningChallenge
         .connect(signers.alice)
         .mine(encryptedAmount.handles[0], encryptedAmount.inputProof),
-    ).to.be.revertedWith("MiningChallenge: Too soon to mine again");
+    )
+      .to.be.revertedWithCustomError(miningChallenge, "MineCooldown")
+      .withArgs(nextAllowed);
   });
 
   it("Alice and Bob can each mine and decrypt their own totals (multi-account ACL)", async function () {
@@ -148,13 +181,13 @@ describe("MiningChallenge (FHE / ACL verification)", function () {
 
     // From ACL perspective: Alice can only decrypt her own total, Bob can only decrypt his
     const aliceClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       aliceEncryptedTotal,
       miningChallengeAddress,
       signers.alice,
     );
     const bobClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       bobEncryptedTotal,
       miningChallengeAddress,
       signers.bob,
@@ -219,19 +252,19 @@ describe("MiningChallenge (FHE / ACL verification)", function () {
 
     // Each player decrypts their own total mined amount
     const aliceClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       aliceEncryptedTotal,
       miningChallengeAddress,
       signers.alice,
     );
     const bobClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       bobEncryptedTotal,
       miningChallengeAddress,
       signers.bob,
     );
     const charlieClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       charlieEncryptedTotal,
       miningChallengeAddress,
       signers.charlie,
@@ -245,7 +278,811 @@ describe("MiningChallenge (FHE / ACL verification)", function () {
     const playerCount = await miningChallenge.getPlayerCount();
     expect(playerCount).to.eq(3n);
   });
-}
-);
 
+  it("Owner can start a new season: leaderboard resets and past season totals stay decryptable", async function () {
+    const seasonOneAmount = 9;
+    const seasonTwoAmount = 4;
+
+    // Alice mines 9 in season 1
+    const encSeasonOne = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(seasonOneAmount)
+      .encrypt();
+
+    const txSeasonOne = await miningChallenge
+      .connect(signers.alice)
+      .mine(encSeasonOne.handles[0], encSeasonOne.inputProof);
+    await txSeasonOne.wait();
+
+    expect(await miningChallenge.currentSeason()).to.eq(1n);
+
+    // Deployer (owner) starts season 2
+    const txSeason = await miningChallenge
+      .connect(signers.deployer)
+      .startNewSeason();
+    await txSeason.wait();
+
+    expect(await miningChallenge.currentSeason()).to.eq(2n);
+    expect(await miningChallenge.getPlayerCount()).to.eq(0n);
+    expect(await miningChallenge.playerExists(signers.alice.address)).to.eq(
+      false,
+    );
+
+    // Alice mines 4 in season 2 right away: the cooldown is tracked per season
+    const encSeasonTwo = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(seasonTwoAmount)
+      .encrypt();
+
+    const txSeasonTwo = await miningChallenge
+      .connect(signers.alice)
+      .mine(encSeasonTwo.handles[0], encSeasonTwo.inputProof);
+    await txSeasonTwo.wait();
+
+    const seasonOneHandle = await miningChallenge.getSeasonPlayerTotalMined(
+      1n,
+      signers.alice.address,
+    );
+    const seasonTwoHandle = await miningChallenge.getPlayerTotalMined(
+      signers.alice.address,
+    );
+
+    const seasonOneClear = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      seasonOneHandle,
+      miningChallengeAddress,
+      signers.alice,
+    );
+    const seasonTwoClear = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      seasonTwoHandle,
+      miningChallengeAddress,
+      signers.alice,
+    );
+
+    expect(seasonOneClear).to.eq(seasonOneAmount);
+    expect(seasonTwoClear).to.eq(seasonTwoAmount);
+    expect(await miningChallenge.getSeasonPlayerCount(1n)).to.eq(1n);
+    expect(await miningChallenge.getSeasonPlayerAddress(1n, 0n)).to.eq(
+      signers.alice.address,
+    );
+  });
+
+  it("Only admins can start a new season", async function () {
+    await expect(
+      miningChallenge.connect(signers.alice).startNewSeason(),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+  });
+
+  it("Owner pays out the reward schedule from escrow and players claim exactly once", async function () {
+    const {
+      miningChallenge: rewardChallenge,
+      miningChallengeAddress: rewardChallengeAddress,
+      rewardToken,
+    } = await deployRewardFixture();
+
+    // Alice and Bob both mine in season 1
+    for (const player of [signers.alice, signers.bob]) {
+      const enc = await fhevm
+        .createEncryptedInput(rewardChallengeAddress, player.address)
+        .add32(6)
+        .encrypt();
+      const tx = await rewardChallenge
+        .connect(player)
+        .mine(enc.handles[0], enc.inputProof);
+      await tx.wait();
+    }
+
+    // Owner publishes the schedule and escrows the tokens
+    await (await rewardChallenge.setRewardSchedule([100n, 40n])).wait();
+    await (await rewardToken.mint(signers.deployer.address, 140n)).wait();
+    await (await rewardToken.approve(rewardChallengeAddress, 140n)).wait();
+    await (await rewardChallenge.fundRewards(140n)).wait();
+
+    expect(await rewardChallenge.rewardPool()).to.eq(140n);
+    expect(await rewardToken.balanceOf(rewardChallengeAddress)).to.eq(140n);
+
+    // Season 1 must be finished before it can be rewarded
+    await expect(
+      rewardChallenge.distributeReward(1n, signers.alice.address, 1n),
+    ).to.be.revertedWithCustomError(rewardChallenge, "SeasonStillRunning");
+
+    await (await rewardChallenge.startNewSeason()).wait();
+
+    await expect(
+      rewardChallenge
+        .connect(signers.alice)
+        .distributeReward(1n, signers.alice.address, 1n),
+    ).to.be.revertedWithCustomError(rewardChallenge, "MissingRole");
+
+    await (
+      await rewardChallenge.distributeReward(1n, signers.alice.address, 1n)
+    ).wait();
+    await (
+      await rewardChallenge.distributeReward(1n, signers.bob.address, 2n)
+    ).wait();
+
+    // Neither a player nor a rank position can be paid twice in one season
+    await expect(
+      rewardChallenge.distributeReward(1n, signers.alice.address, 2n),
+    ).to.be.revertedWithCustomError(rewardChallenge, "PlayerAlreadyRewarded");
+
+    expect(await rewardChallenge.rewardPool()).to.eq(0n);
+    expect(await rewardChallenge.claimableRewards(signers.alice.address)).to.eq(
+      100n,
+    );
+
+    await (await rewardChallenge.connect(signers.alice).claimReward()).wait();
+
+    expect(await rewardToken.balanceOf(signers.alice.address)).to.eq(100n);
+    expect(await rewardChallenge.claimableRewards(signers.alice.address)).to.eq(
+      0n,
+    );
+
+    await expect(
+      rewardChallenge.connect(signers.alice).claimReward(),
+    ).to.be.revertedWithCustomError(rewardChallenge, "NoRewardToClaim");
+
+    expect(await rewardChallenge.totalClaimableRewards()).to.eq(40n);
+  });
+
+  it("Rewards cannot exceed the escrowed pool", async function () {
+    const {
+      miningChallenge: rewardChallenge,
+      miningChallengeAddress: rewardChallengeAddress,
+    } = await deployRewardFixture();
+
+    const enc = await fhevm
+      .createEncryptedInput(rewardChallengeAddress, signers.alice.address)
+      .add32(3)
+      .encrypt();
+    await (
+      await rewardChallenge
+        .connect(signers.alice)
+        .mine(enc.handles[0], enc.inputProof)
+    ).wait();
+
+    await (await rewardChallenge.setRewardSchedule([50n])).wait();
+    await (await rewardChallenge.startNewSeason()).wait();
+
+    await expect(
+      rewardChallenge.distributeReward(1n, signers.alice.address, 1n),
+    ).to.be.revertedWithCustomError(rewardChallenge, "InsufficientRewardPool");
+  });
+
+  it("Pauser can pause and unpause: mine and calculateMyRank are blocked while paused", async function () {
+    const pauserRole = await miningChallenge.PAUSER_ROLE();
+
+    await expect(
+      miningChallenge.connect(signers.bob).pause(),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+
+    await (
+      await miningChallenge.grantRole(pauserRole, signers.bob.address)
+    ).wait();
+    expect(
+      await miningChallenge.hasRole(pauserRole, signers.bob.address),
+    ).to.eq(true);
+
+    await expect(miningChallenge.connect(signers.bob).pause())
+      .to.emit(miningChallenge, "Paused")
+      .withArgs(signers.bob.address);
+    expect(await miningChallenge.paused()).to.eq(true);
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(5)
+      .encrypt();
+
+    await expect(
+      miningChallenge
+        .connect(signers.alice)
+        .mine(encryptedAmount.handles[0], encryptedAmount.inputProof),
+    ).to.be.revertedWithCustomError(miningChallenge, "ContractPaused");
+    await expect(
+      miningChallenge.connect(signers.alice).calculateMyRank(),
+    ).to.be.revertedWithCustomError(miningChallenge, "ContractPaused");
+
+    await (await miningChallenge.connect(signers.bob).unpause()).wait();
+
+    const tx = await miningChallenge
+      .connect(signers.alice)
+      .mine(encryptedAmount.handles[0], encryptedAmount.inputProof);
+    await tx.wait();
+    expect(await miningChallenge.getPlayerCount()).to.eq(1n);
+
+    // Revoked pausers lose access again
+    await (
+      await miningChallenge.revokeRole(pauserRole, signers.bob.address)
+    ).wait();
+    await expect(
+      miningChallenge.connect(signers.bob).pause(),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+  });
+
+  it("Admins update minMineInterval and rewardToken with events", async function () {
+    const adminRole = await miningChallenge.ADMIN_ROLE();
+
+    await expect(
+      miningChallenge.connect(signers.alice).setMinMineInterval(30n),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+
+    await (
+      await miningChallenge.grantRole(adminRole, signers.alice.address)
+    ).wait();
+
+    await expect(miningChallenge.connect(signers.alice).setMinMineInterval(30n))
+      .to.emit(miningChallenge, "MinMineIntervalUpdated")
+      .withArgs(10n, 30n);
+    expect(await miningChallenge.minMineInterval()).to.eq(30n);
+
+    await expect(
+      miningChallenge
+        .connect(signers.alice)
+        .setRewardToken(signers.charlie.address),
+    )
+      .to.emit(miningChallenge, "RewardTokenUpdated")
+      .withArgs(ethers.ZeroAddress, signers.charlie.address);
+    expect(await miningChallenge.rewardToken()).to.eq(signers.charlie.address);
+  });
+
+  it("Ownership moves only after the nominated owner accepts", async function () {
+    await expect(
+      miningChallenge
+        .connect(signers.alice)
+        .transferOwnership(signers.alice.address),
+    ).to.be.revertedWithCustomError(miningChallenge, "NotOwner");
+
+    await (
+      await miningChallenge.transferOwnership(signers.alice.address)
+    ).wait();
+
+    // Nothing changes until the nominee accepts
+    expect(await miningChallenge.owner()).to.eq(signers.deployer.address);
+    expect(await miningChallenge.pendingOwner()).to.eq(signers.alice.address);
+
+    await expect(
+      miningChallenge.connect(signers.bob).acceptOwnership(),
+    ).to.be.revertedWithCustomError(miningChallenge, "NotPendingOwner");
+
+    await expect(miningChallenge.connect(signers.alice).acceptOwnership())
+      .to.emit(miningChallenge, "OwnershipTransferred")
+      .withArgs(signers.deployer.address, signers.alice.address);
+
+    expect(await miningChallenge.owner()).to.eq(signers.alice.address);
+    expect(await miningChallenge.pendingOwner()).to.eq(ethers.ZeroAddress);
+
+    // The previous owner no longer holds any role
+    await expect(
+      miningChallenge.connect(signers.deployer).startNewSeason(),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+  });
+
+  it("Oversized encrypted inputs are clamped to maxMineAmount without reverting", async function () {
+    expect(await miningChallenge.maxMineAmount()).to.eq(1000n);
+
+    // Alice tries to mine 4,000,000,000 in one go
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(4_000_000_000)
+      .encrypt();
+
+    const tx = await miningChallenge
+      .connect(signers.alice)
+      .mine(encryptedAmount.handles[0], encryptedAmount.inputProof);
+    await tx.wait();
+
+    const clearTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.alice.address),
+      miningChallengeAddress,
+      signers.alice,
+    );
+
+    expect(clearTotal).to.eq(1000);
+  });
+
+  it("Admins can change the cap and in-range amounts are kept as submitted", async function () {
+    await expect(
+      miningChallenge.connect(signers.alice).setMaxMineAmount(50),
+    ).to.be.revertedWithCustomError(miningChallenge, "MissingRole");
+
+    await expect(miningChallenge.setMaxMineAmount(50))
+      .to.emit(miningChallenge, "MaxMineAmountUpdated")
+      .withArgs(1000n, 50n);
+
+    const encAlice = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(49)
+      .encrypt();
+    await (
+      await miningChallenge
+        .connect(signers.alice)
+        .mine(encAlice.handles[0], encAlice.inputProof)
+    ).wait();
+
+    const encBob = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.bob.address)
+      .add32(51)
+      .encrypt();
+    await (
+      await miningChallenge
+        .connect(signers.bob)
+        .mine(encBob.handles[0], encBob.inputProof)
+    ).wait();
+
+    const aliceClearTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.alice.address),
+      miningChallengeAddress,
+      signers.alice,
+    );
+    const bobClearTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.bob.address),
+      miningChallengeAddress,
+      signers.bob,
+    );
+
+    expect(aliceClearTotal).to.eq(49);
+    expect(bobClearTotal).to.eq(50);
+  });
+
+  it("Totals are 64-bit: sums past 2^32 do not wrap around", async function () {
+    const maxUint32 = 4_294_967_295;
+    const bigMine = 4_000_000_000;
+
+    // Lift the cap so a single mine can use the full 32-bit input range
+    await (await miningChallenge.setMaxMineAmount(maxUint32)).wait();
+
+    for (let i = 0; i < 2; i++) {
+      const enc = await fhevm
+        .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+        .add32(bigMine)
+        .encrypt();
+      await (
+        await miningChallenge
+          .connect(signers.alice)
+          .mine(enc.handles[0], enc.inputProof)
+      ).wait();
+
+      // Wait out minMineInterval before the next mine
+      await time.increase(11);
+    }
+
+    const clearTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.alice.address),
+      miningChallengeAddress,
+      signers.alice,
+    );
+
+    // A euint32 total would have wrapped to 8,000,000,000 - 2^32 = 3,705,032,704
+    expect(clearTotal).to.eq(8_000_000_000n);
+  });
+
+  it("Rank job processes the leaderboard in pages and yields the same rank as calculateMyRank", async function () {
+    // Alice 5, Bob 8, Charlie 11 => Alice is rank 3
+    const amounts: [HardhatEthersSigner, number][] = [
+      [signers.alice, 5],
+      [signers.bob, 8],
+      [signers.charlie, 11],
+    ];
+    for (const [signer, amount] of amounts) {
+      const enc = await fhevm
+        .createEncryptedInput(miningChallengeAddress, signer.address)
+        .add32(amount)
+        .encrypt();
+      await (
+        await miningChallenge
+          .connect(signer)
+          .mine(enc.handles[0], enc.inputProof)
+      ).wait();
+    }
+
+    const aliceChallenge = miningChallenge.connect(signers.alice);
+
+    await expect(aliceChallenge.startRankJob(1n))
+      .to.emit(miningChallenge, "RankJobStarted")
+      .withArgs(signers.alice.address, 1n, 3n);
+
+    // The job cannot be finished before every page is processed
+    await expect(aliceChallenge.finishRankJob()).to.be.revertedWithCustomError(
+      miningChallenge,
+      "RankJobNotComplete",
+    );
+    await expect(
+      aliceChallenge.processRankPage(0n),
+    ).to.be.revertedWithCustomError(miningChallenge, "InvalidPageSize");
+
+    await expect(aliceChallenge.processRankPage(2n))
+      .to.emit(miningChallenge, "RankJobProgressed")
+      .withArgs(signers.alice.address, 2n, 3n);
+    await expect(aliceChallenge.processRankPage(2n))
+      .to.emit(miningChallenge, "RankJobProgressed")
+      .withArgs(signers.alice.address, 3n, 3n);
+
+    await expect(aliceChallenge.finishRankJob()).to.emit(
+      miningChallenge,
+      "RankCalculated",
+    );
+    const [rankHandle, rankSeason] = await aliceChallenge.getMyLastRank();
+    expect(rankSeason).to.eq(1n);
+
+    const clearRank = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      rankHandle,
+      miningChallengeAddress,
+      signers.alice,
+    );
+    expect(clearRank).to.eq(3n);
+
+    // Finishing clears the job
+    expect(
+      (await miningChallenge.rankJobs(signers.alice.address)).active,
+    ).to.eq(false);
+    await expect(
+      aliceChallenge.processRankPage(1n),
+    ).to.be.revertedWithCustomError(miningChallenge, "NoActiveRankJob");
+  });
+
+  it("calculateMyRank stores the latest rank handle and emits it in RankCalculated", async function () {
+    const encAlice = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(4)
+      .encrypt();
+    await (
+      await miningChallenge
+        .connect(signers.alice)
+        .mine(encAlice.handles[0], encAlice.inputProof)
+    ).wait();
+    const encBob = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.bob.address)
+      .add32(9)
+      .encrypt();
+    await (
+      await miningChallenge
+        .connect(signers.bob)
+        .mine(encBob.handles[0], encBob.inputProof)
+    ).wait();
+
+    // Nothing stored before the first computation
+    const [emptyHandle, , emptyTime] = await miningChallenge
+      .connect(signers.alice)
+      .getMyLastRank();
+    expect(emptyHandle).to.eq(ethers.ZeroHash);
+    expect(emptyTime).to.eq(0n);
+
+    const tx = await miningChallenge.connect(signers.alice).calculateMyRank();
+    const receipt = await tx.wait();
+
+    const [rankHandle, seasonId, calculatedAt] = await miningChallenge
+      .connect(signers.alice)
+      .getMyLastRank();
+    expect(seasonId).to.eq(1n);
+    expect(calculatedAt).to.eq(
+      (await ethers.provider.getBlock(receipt!.blockNumber))!.timestamp,
+    );
+
+    // The event carries the same handle that is stored
+    await expect(tx)
+      .to.emit(miningChallenge, "RankCalculated")
+      .withArgs(signers.alice.address, 1n, rankHandle);
+
+    const clearRank = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      rankHandle,
+      miningChallengeAddress,
+      signers.alice,
+    );
+    expect(clearRank).to.eq(2n);
+  });
+
+  it("PlayerMined carries per-mine and running-total handles the player can decrypt", async function () {
+    const minedAmounts = [6, 9];
+    const logs = [];
 
+    for (const clearAmount of minedAmounts) {
+      const enc = await fhevm
+        .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+        .add32(clearAmount)
+        .encrypt();
+      const tx = await miningChallenge
+        .connect(signers.alice)
+        .mine(enc.handles[0], enc.inputProof);
+      await tx.wait();
+      await time.increase(11);
+    }
+
+    const events = await miningChallenge.queryFilter(
+      miningChallenge.filters.PlayerMined(signers.alice.address),
+    );
+    expect(events.length).to.eq(2);
+
+    for (const event of events) {
+      expect(event.args.seasonId).to.eq(1n);
+      logs.push({
+        amount: await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          event.args.amountHandle,
+          miningChallengeAddress,
+          signers.alice,
+        ),
+        total: await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          event.args.totalHandle,
+          miningChallengeAddress,
+          signers.alice,
+        ),
+      });
+    }
+
+    expect(logs).to.deep.eq([
+      { amount: 6n, total: 6n },
+      { amount: 9n, total: 15n },
+    ]);
+  });
+
+  it("Teams: invite/accept/leave, encrypted team totals shared with members and team rank", async function () {
+    const mineAs = async (signer: HardhatEthersSigner, amount: number) => {
+      const enc = await fhevm
+        .createEncryptedInput(miningChallengeAddress, signer.address)
+        .add32(amount)
+        .encrypt();
+      await (
+        await miningChallenge
+          .connect(signer)
+          .mine(enc.handles[0], enc.inputProof)
+      ).wait();
+    };
+
+    // Alice founds a team and invites Bob; Charlie mines solo in his own team
+    await expect(miningChallenge.connect(signers.alice).createTeam("Diggers"))
+      .to.emit(miningChallenge, "TeamCreated")
+      .withArgs(1n, signers.alice.address, "Diggers");
+    await expect(
+      miningChallenge
+        .connect(signers.bob)
+        .inviteToTeam(signers.charlie.address),
+    ).to.be.revertedWithCustomError(miningChallenge, "NotTeamLeader");
+    await expect(
+      miningChallenge.connect(signers.bob).acceptTeamInvite(1n),
+    ).to.be.revertedWithCustomError(miningChallenge, "NoTeamInvite");
+
+    await (
+      await miningChallenge
+        .connect(signers.alice)
+        .inviteToTeam(signers.bob.address)
+    ).wait();
+    await expect(miningChallenge.connect(signers.bob).acceptTeamInvite(1n))
+      .to.emit(miningChallenge, "TeamJoined")
+      .withArgs(1n, signers.bob.address);
+    await (
+      await miningChallenge.connect(signers.charlie).createTeam("Solo")
+    ).wait();
+
+    await mineAs(signers.alice, 7);
+    await mineAs(signers.bob, 5);
+    await mineAs(signers.charlie, 10);
+
+    // Both members can decrypt the team total
+    const teamTotal = await miningChallenge.getTeamTotalMined(1n);
+    for (const member of [signers.alice, signers.bob]) {
+      const clearTotal = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        teamTotal,
+        miningChallengeAddress,
+        member,
+      );
+      expect(clearTotal).to.eq(12n);
+    }
+
+    // Diggers (12) beat Solo (10); one team per page
+    const calculateTeamRank = async (player: HardhatEthersSigner) => {
+      await (await miningChallenge.connect(player).startTeamRankJob(1n)).wait();
+      const job = await miningChallenge.teamRankJobs(player.address);
+      expect(job.endIndex).to.eq(2n);
+      for (let i = 0n; i < job.endIndex; i++) {
+        await expect(miningChallenge.connect(player).processTeamRankPage(1n))
+          .to.emit(miningChallenge, "TeamRankJobProgressed")
+          .withArgs(player.address, i + 1n, 2n);
+      }
+      const rankReceipt = await (
+        await miningChallenge.connect(player).finishTeamRankJob()
+      ).wait();
+      const rankEvent = rankReceipt!.logs
+        .map((log) => miningChallenge.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "TeamRankCalculated");
+      expect((await miningChallenge.teamRankJobs(player.address)).active).to.eq(
+        false,
+      );
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        rankEvent!.args.rankHandle,
+        miningChallengeAddress,
+        player,
+      );
+    };
+    expect(await calculateTeamRank(signers.bob)).to.eq(1n);
+    expect(await calculateTeamRank(signers.charlie)).to.eq(2n);
+
+    // A team rank job is finished only once every team is processed
+    await (
+      await miningChallenge.connect(signers.alice).startTeamRankJob(1n)
+    ).wait();
+    await expect(miningChallenge.connect(signers.alice).finishTeamRankJob())
+      .to.be.revertedWithCustomError(miningChallenge, "RankJobNotComplete")
+      .withArgs(0n, 2n);
+
+    // Leader leaves: leadership passes to Bob
+    await expect(miningChallenge.connect(signers.alice).leaveTeam())
+      .to.emit(miningChallenge, "TeamLeft")
+      .withArgs(1n, signers.alice.address);
+    const [, leader, members] = await miningChallenge.getTeam(1n);
+    expect(leader).to.eq(signers.bob.address);
+    expect(members).to.deep.eq([signers.bob.address]);
+    expect(await miningChallenge.playerTeam(signers.alice.address)).to.eq(0n);
+  });
+
+  it("Teams cannot grow past maxTeamSize", async function () {
+    await (await miningChallenge.setMaxTeamSize(1n)).wait();
+    await (
+      await miningChallenge.connect(signers.alice).createTeam("Tiny")
+    ).wait();
+    await (
+      await miningChallenge
+        .connect(signers.alice)
+        .inviteToTeam(signers.bob.address)
+    ).wait();
+
+    await expect(
+      miningChallenge.connect(signers.bob).acceptTeamInvite(1n),
+    ).to.be.revertedWithCustomError(miningChallenge, "TeamFull");
+    await expect(
+      miningChallenge.connect(signers.alice).createTeam("Again"),
+    ).to.be.revertedWithCustomError(miningChallenge, "AlreadyInTeam");
+  });
+
+  it("Accepting an open invite of a team every member left makes the joiner its leader", async function () {
+    await (
+      await miningChallenge.connect(signers.alice).createTeam("Ghosts")
+    ).wait();
+    await (
+      await miningChallenge
+        .connect(signers.alice)
+        .inviteToTeam(signers.bob.address)
+    ).wait();
+    await (await miningChallenge.connect(signers.alice).leaveTeam()).wait();
+
+    const [, emptyLeader, emptyMembers] = await miningChallenge.getTeam(1n);
+    expect(emptyLeader).to.eq(ethers.ZeroAddress);
+    expect(emptyMembers).to.deep.eq([]);
+
+    await (
+      await miningChallenge.connect(signers.bob).acceptTeamInvite(1n)
+    ).wait();
+    const [, leader, members] = await miningChallenge.getTeam(1n);
+    expect(leader).to.eq(signers.bob.address);
+    expect(members).to.deep.eq([signers.bob.address]);
+
+    // The new leader can invite again
+    await expect(
+      miningChallenge
+        .connect(signers.bob)
+        .inviteToTeam(signers.charlie.address),
+    )
+      .to.emit(miningChallenge, "TeamInvited")
+      .withArgs(1n, signers.charlie.address, signers.bob.address);
+  });
+
+  it("Random yield mode: mineRandom credits an encrypted yield within bounds, scaled by tools", async function () {
+    const enc = await fhevm
+      .createEncryptedInput(miningChallengeAddress, signers.alice.address)
+      .add32(10)
+      .encrypt();
+
+    await expect(
+      miningChallenge.connect(signers.alice).mineRandom(),
+    ).to.be.revertedWithCustomError(miningChallenge, "RandomYieldModeOff");
+
+    await expect(miningChallenge.setRandomYieldMode(true))
+      .to.emit(miningChallenge, "RandomYieldModeUpdated")
+      .withArgs(true);
+    await expect(
+      miningChallenge
+        .connect(signers.alice)
+        .mine(enc.handles[0], enc.inputProof),
+    ).to.be.revertedWithCustomError(miningChallenge, "RandomYieldModeOn");
+    await expect(
+      miningChallenge.setYieldRange(20, 10),
+    ).to.be.revertedWithCustomError(miningChallenge, "InvalidYieldRange");
+
+    // Bob: plain yield in [10, 20]
+    await (await miningChallenge.setYieldRange(10, 20)).wait();
+    await (await miningChallenge.connect(signers.bob).mineRandom()).wait();
+    const bobTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.bob.address),
+      miningChallengeAddress,
+      signers.bob,
+    );
+    expect(bobTotal >= 10n && bobTotal <= 20n).to.eq(true);
+
+    // Alice: fixed yield 7 with a x3 tool
+    await (await miningChallenge.setYieldRange(7, 7)).wait();
+    await (
+      await miningChallenge.setToolMultiplier(signers.alice.address, 3)
+    ).wait();
+    await expect(
+      miningChallenge.setToolMultiplier(signers.alice.address, 11),
+    ).to.be.revertedWithCustomError(miningChallenge, "MultiplierTooLarge");
+    await (await miningChallenge.connect(signers.alice).mineRandom()).wait();
+    const aliceTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await miningChallenge.getPlayerTotalMined(signers.alice.address),
+      miningChallengeAddress,
+      signers.alice,
+    );
+    expect(aliceTotal).to.eq(21n);
+  });
+
+  it("Lookups of unknown players, indexes and teams revert with typed errors", async function () {
+    await expect(miningChallenge.getPlayerLastMineTime(signers.alice.address))
+      .to.be.revertedWithCustomError(miningChallenge, "PlayerNotFound")
+      .withArgs(1n, signers.alice.address);
+    await expect(miningChallenge.getSeasonPlayerAddress(1n, 0n))
+      .to.be.revertedWithCustomError(miningChallenge, "IndexOutOfBounds")
+      .withArgs(0n, 0n);
+    await expect(
+      miningChallenge.getSeasonPlayerTotalMined(2n, signers.alice.address),
+    )
+      .to.be.revertedWithCustomError(miningChallenge, "SeasonNotFound")
+      .withArgs(2n);
+    await expect(miningChallenge.getTeam(1n))
+      .to.be.revertedWithCustomError(miningChallenge, "TeamNotFound")
+      .withArgs(1n);
+  });
+
+  it("getPlayersPage returns players with last mine times in pages", async function () {
+    const players = [signers.alice, signers.bob, signers.charlie];
+    const mineTimes: bigint[] = [];
+    for (const player of players) {
+      const input = await fhevm
+        .createEncryptedInput(miningChallengeAddress, player.address)
+        .add32(5)
+        .encrypt();
+      const tx = await miningChallenge
+        .connect(player)
+        .mine(input.handles[0], input.inputProof);
+      const receipt = await tx.wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      mineTimes.push(BigInt(block!.timestamp));
+    }
+
+    const [firstPage, firstTimes, firstExists] =
+      await miningChallenge.getPlayersPage(0n, 2n);
+    expect(firstPage).to.deep.equal([
+      signers.alice.address,
+      signers.bob.address,
+    ]);
+    expect(firstTimes).to.deep.equal(mineTimes.slice(0, 2));
+    expect(firstExists).to.deep.equal([true, true]);
+
+    const [lastPage, lastTimes, lastExists] =
+      await miningChallenge.getPlayersPage(2n, 2n);
+    expect(lastPage).to.deep.equal([signers.charlie.address]);
+    expect(lastTimes).to.deep.equal([mineTimes[2]]);
+    expect(lastExists).to.deep.equal([true]);
+
+    const [emptyPage] = await miningChallenge.getPlayersPage(5n, 2n);
+    expect(emptyPage).to.deep.equal([]);
+
+    const maxPageSize = await miningChallenge.MAX_PLAYERS_PAGE_SIZE();
+    await expect(miningChallenge.getPlayersPage(0n, 0n))
+      .to.be.revertedWithCustomError(miningChallenge, "InvalidPageSize")
+      .withArgs(0n, maxPageSize);
+    await expect(miningChallenge.getSeasonPlayersPage(2n, 0n, 2n))
+      .to.be.revertedWithCustomError(miningChallenge, "SeasonNotFound")
+      .withArgs(2n);
+  });
+});
@@ -0,0 +1,207 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { MiningChallenge, MiningChallenge__factory } from "../types";
+import {
+  MiningChallengeClient,
+  secondsUntilNextMine,
+} from "../../frontend/client/MiningChallengeClient";
+import { GenericStringInMemoryStorage } from "../../frontend/fhevm/GenericStringStorage";
+import type { FhevmInstance } from "../../frontend/fhevm/fhevmTypes";
+
+type Signers = {
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function expectAborted(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => undefined,
+    (e: unknown) => e,
+  );
+  expect((error as Error | undefined)?.name).to.equal("AbortError");
+}
+
+// The frontend client driven by the Hardhat plugin's mock instance, as under the tasks
+describe("MiningChallengeClient (Node, FHEVM mock)", function () {
+  let signers: Signers;
+  let miningChallenge: MiningChallenge;
+  let miningChallengeAddress: `0x${string}`;
+
+  function createClient(signer: HardhatEthersSigner) {
+    return new MiningChallengeClient({
+      instance: fhevm as unknown as FhevmInstance,
+      signer,
+      storage: new GenericStringInMemoryStorage(),
+      address: miningChallengeAddress,
+    });
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        `MiningChallengeClient tests can only run on a local FHEVM Hardhat node (mock mode)`,
+      );
+      this.skip();
+    }
+
+    const [deployer] = await ethers.getSigners();
+    miningChallenge = await new MiningChallenge__factory(deployer).deploy(
+      ethers.ZeroAddress,
+      10n,
+    );
+    miningChallengeAddress =
+      (await miningChallenge.getAddress()) as `0x${string}`;
+  });
+
+  it("mines, decrypts the total, ranks and lists players", async function () {
+    const alice = createClient(signers.alice);
+    const seasonId = await alice.getCurrentSeason();
+
+    expect(await alice.getTotalHandle(seasonId)).to.equal(undefined);
+
+    const receipt = await alice.mine(7);
+    expect(receipt?.status).to.equal(1);
+
+    const totalHandle = await alice.getTotalHandle(seasonId);
+    expect(totalHandle).to.not.equal(undefined);
+    expect(await alice.decryptTotal(seasonId)).to.equal(7n);
+
+    const rankHandle = await alice.calculateRank(seasonId);
+    expect(await alice.decryptRank(rankHandle)).to.equal(1n);
+    // Without a handle the last rank recorded on-chain is decrypted
+    expect(await alice.decryptRank()).to.equal(1n);
+
+    const players = await alice.getPlayers(seasonId);
+    expect(players.map((player) => player.address)).to.deep.equal([
+      signers.alice.address,
+    ]);
+    expect(players[0].lastMineTime).to.be.greaterThan(0);
+    expect(await alice.getPlayerCount(seasonId)).to.equal(1);
+  });
+
+  it("reads the cooldown and the mining history of the player", async function () {
+    const alice = createClient(signers.alice);
+
+    const before = await alice.getMineCooldown();
+    expect(before.minMineInterval).to.equal(10);
+    expect(before.lastMineTime).to.equal(undefined);
+    expect(secondsUntilNextMine(before, Date.now())).to.equal(0);
+
+    await alice.mine(7);
+
+    const after = await alice.getMineCooldown();
+    expect(after.lastMineTime).to.not.equal(undefined);
+    expect(secondsUntilNextMine(after, Date.now())).to.be.greaterThan(0);
+
+    const history = await alice.getHistory();
+    expect(history).to.have.length(1);
+    expect(history[0].timestamp).to.equal(after.lastMineTime);
+    const clear = await alice.decryptHandles([
+      history[0].amountHandle,
+      history[0].totalHandle,
+    ]);
+    expect(clear[history[0].amountHandle.toLowerCase()]).to.equal(7n);
+    expect(clear[history[0].totalHandle.toLowerCase()]).to.equal(7n);
+  });
+
+  it("rejects an aborted mine before sending a transaction", async function () {
+    const alice = createClient(signers.alice);
+    const nonce = await signers.alice.getNonce();
+
+    const controller = new AbortController();
+    controller.abort();
+
+    let onSubmittedCalled = false;
+    await expectAborted(
+      alice.mine(7, {
+        signal: controller.signal,
+        onSubmitted: () => {
+          onSubmittedCalled = true;
+        },
+      }),
+    );
+
+    expect(onSubmittedCalled).to.equal(false);
+    expect(await signers.alice.getNonce()).to.equal(nonce);
+    expect(await alice.getPlayerCount()).to.equal(0);
+  });
+
+  it("resumes a rank job aborted between pages", async function () {
+    const alice = createClient(signers.alice);
+    const bob = createClient(signers.bob);
+    await alice.mine(7);
+    await bob.mine(3);
+    const seasonId = await bob.getCurrentSeason();
+
+    const controller = new AbortController();
+    await expectAborted(
+      bob.calculateRank(seasonId, {
+        pageSize: 1,
+        signal: controller.signal,
+        onProgress: (step) => {
+          if (step === "page") {
+            controller.abort();
+          }
+        },
+      }),
+    );
+
+    const job = await miningChallenge.rankJobs(signers.bob.address);
+    expect(job.active).to.equal(true);
+    expect(job.nextIndex).to.equal(1n);
+
+    // Completed pages are kept: the job is resumed, not restarted
+    const steps: string[] = [];
+    const rankHandle = await bob.calculateRank(seasonId, {
+      pageSize: 1,
+      onProgress: (step) => steps.push(step),
+    });
+    expect(steps).to.deep.equal(["page", "finish"]);
+    expect(await bob.decryptRank(rankHandle)).to.equal(2n);
+  });
+
+  it("ranks the player's team with the paged team rank job", async function () {
+    const alice = createClient(signers.alice);
+    const bob = createClient(signers.bob);
+    await (
+      await miningChallenge.connect(signers.alice).createTeam("Diggers")
+    ).wait();
+    await (
+      await miningChallenge.connect(signers.bob).createTeam("Solo")
+    ).wait();
+    await alice.mine(3);
+    await bob.mine(7);
+    const seasonId = await alice.getCurrentSeason();
+
+    const pages: number[] = [];
+    const rankHandle = await alice.calculateTeamRank(seasonId, {
+      pageSize: 1,
+      onProgress: (step, progress) => {
+        if (step === "page") {
+          pages.push(progress.page);
+        }
+      },
+    });
+    expect(pages).to.deep.equal([1, 2]);
+    expect(await alice.decryptRank(rankHandle)).to.equal(2n);
+  });
+
+  it("rejects decryption with an aborted signal", async function () {
+    const alice = createClient(signers.alice);
+    await alice.mine(7);
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expectAborted(
+      alice.decryptTotal(undefined, { signal: controller.signal }),
+    );
+  });
+});
@@ -1,13 +1,35 @@
 // Contract addresses by chain ID
 // This file is automatically generated from deployment artifacts
-export const MiningChallengeAddresses: Record<string, { address?: `0x${string}`; chainId?: number; chainName?: string }> = {
+export type MiningChallengeChainInfo = {
+  address?: `0x${string}`;
+  chainId?: number;
+  deployBlock?: number;
+  chainName?: string;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+};
+
+export const MiningChallengeAddresses: Record<string, MiningChallengeChainInfo> = {
   "31337": {
     "chainId": 31337,
-    "chainName": "Hardhat Local"
+    "chainName": "Hardhat Local",
+    "rpcUrl": "http://localhost:8545",
+    "nativeCurrency": {
+      "name": "Ether",
+      "symbol": "ETH",
+      "decimals": 18
+    }
   },
   "11155111": {
-    "address": "0xe62177c707dE60D817814C6981eb67D0C042AC2e",
     "chainId": 11155111,
-    "chainName": "Sepolia"
+    "chainName": "Sepolia",
+    "rpcUrl": "https://ethereum-sepolia-rpc.publicnode.com",
+    "explorerUrl": "https://sepolia.etherscan.io",
+    "nativeCurrency": {
+      "name": "Sepolia Ether",
+      "symbol": "ETH",
+      "decimals": 18
+    }
   }
 };
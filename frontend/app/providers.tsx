@@ -3,20 +3,39 @@
 import type { ReactNode } from "react";
 
 import { MetaMaskProvider } from "@/hooks/metamask/useMetaMaskProvider";
-import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
+import { DecryptionSignatureStorageProvider } from "@/hooks/useDecryptionSignatureStorage";
 import { MetaMaskEthersSignerProvider } from "@/hooks/metamask/useMetaMaskEthersSigner";
+import { DevSettingsProvider, useDevSettings } from "@/hooks/useDevSettings";
 
 type Props = {
   children: ReactNode;
 };
 
-export function Providers({ children }: Props) {
+// Mock chains come from NEXT_PUBLIC_FHEVM_MOCK_CHAINS or the dev settings panel
+function EthersSignerProvider({ children }: Props) {
+  const { mockChains } = useDevSettings();
   return (
-    <MetaMaskProvider>
-      <MetaMaskEthersSignerProvider initialMockChains={{ 31337: "http://localhost:8545" }}>
-        <InMemoryStorageProvider>{children}</InMemoryStorageProvider>
-      </MetaMaskEthersSignerProvider>
-    </MetaMaskProvider>
+    <MetaMaskEthersSignerProvider initialMockChains={mockChains}>
+      {children}
+    </MetaMaskEthersSignerProvider>
   );
 }
 
+export function Providers({ children }: Props) {
+  return (
+    <DevSettingsProvider>
+      <MetaMaskProvider>
+        <EthersSignerProvider>
+          {/* Persist decryption signatures so a reload does not ask for a new EIP-712 signature;
+              users can opt in to passphrase-encrypt the stored keypairs (re-locked after 15 idle minutes) */}
+          <DecryptionSignatureStorageProvider
+            backend="indexedDB"
+            encryption={{ autoLockMinutes: 15 }}
+          >
+            {children}
+          </DecryptionSignatureStorageProvider>
+        </EthersSignerProvider>
+      </MetaMaskProvider>
+    </DevSettingsProvider>
+  );
+}
@@ -0,0 +1,733 @@
+import { ethers } from "ethers";
+
+import { MiningChallengeABI } from "../abi/MiningChallengeABI";
+import type { FhevmInstance } from "../fhevm/fhevmTypes";
+import { GenericStringStorage } from "../fhevm/GenericStringStorage";
+import { userDecryptHandles } from "../fhevm/userDecryptHandles";
+
+// Players compared per processRankPage() transaction (contract caps it at MAX_RANK_PAGE_SIZE)
+export const DEFAULT_RANK_PAGE_SIZE = 20;
+
+// Players per getSeasonPlayersPage() call (contract caps it at MAX_PLAYERS_PAGE_SIZE)
+export const PLAYERS_PAGE_SIZE = 100;
+
+// Blocks per eth_getLogs request; public RPCs reject wider or unbounded ranges
+export const LOG_QUERY_CHUNK_BLOCKS = 5000;
+
+// How far back log queries go when the registry has no deployBlock for the chain
+export const LOG_QUERY_FALLBACK_BLOCKS = 50000;
+
+export type MiningChallengeClientOptions = {
+  signal?: AbortSignal;
+};
+
+export type RankProgress = {
+  page: number;
+  totalPages: number;
+};
+
+export type CalculateRankOptions = MiningChallengeClientOptions & {
+  pageSize?: number;
+  // Called before each transaction of the rank job: "start", every page, then "finish"
+  onProgress?: (step: "start" | "page" | "finish", progress: RankProgress) => void;
+};
+
+export type PlayerEntry = {
+  address: `0x${string}`;
+  // Unix seconds of the player's last mine in the season
+  lastMineTime: number;
+};
+
+export type TransactionOptions = MiningChallengeClientOptions & {
+  // Called once the transaction is in the mempool
+  onSubmitted?: (tx: ethers.TransactionResponse) => void;
+};
+
+export type YieldConfig = {
+  randomYieldMode: boolean;
+  minYield: number;
+  maxYield: number;
+  toolMultiplier: number;
+};
+
+export type MineCooldown = {
+  minMineInterval: number;
+  // Undefined until the player has mined in the current season
+  lastMineTime: number | undefined;
+  // Latest block timestamp minus local time (seconds) when the block was fetched
+  chainTimeOffset: number;
+};
+
+export type AdminState = {
+  owner: `0x${string}`;
+  pendingOwner: `0x${string}` | undefined;
+  isPaused: boolean;
+  isOwner: boolean;
+  isAdmin: boolean;
+  isRewardManager: boolean;
+  isPauser: boolean;
+};
+
+export type RewardTokenInfo = {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+};
+
+export type Rewards = {
+  token: RewardTokenInfo;
+  claimable: bigint;
+};
+
+export type MiningHistoryEntry = {
+  id: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+  seasonId: number;
+  amountHandle: string;
+  totalHandle: string;
+};
+
+// Minimal ERC-20 surface used to display the reward token
+const ERC20_METADATA_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+] as const;
+
+/**
+ * Decodes a decrypted euint value into a bigint.
+ * Totals are euint64, which can exceed Number.MAX_SAFE_INTEGER, so values are never
+ * routed through `number`.
+ */
+export function decodeClearUint(value: unknown): bigint | undefined {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number" && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^(0x[0-9a-fA-F]+|[0-9]+)$/.test(value)) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+/**
+ * Seconds left before `cooldown` lets the player mine again, in chain time: the local clock
+ * `localNowMs` shifted by the offset measured when the cooldown was read.
+ */
+export function secondsUntilNextMine(cooldown: MineCooldown, localNowMs: number): number {
+  if (cooldown.lastMineTime === undefined) {
+    return 0;
+  }
+  const chainNow = localNowMs / 1000 + cooldown.chainTimeOffset;
+  return Math.max(0, Math.ceil(cooldown.lastMineTime + cooldown.minMineInterval - chainNow));
+}
+
+function _throwIfAborted(signal: AbortSignal | undefined) {
+  signal?.throwIfAborted();
+}
+
+/**
+ * Framework-agnostic access to a deployed MiningChallenge: encrypted mining, totals, paged
+ * rank jobs, user decryption, cooldown, rewards and mining history. Runs in the browser (relayer SDK instance) as well as under
+ * Node (e.g. with the Hardhat plugin's `hre.fhevm` mock); React state lives in useMiningChallenge.
+ *
+ * Every async method takes an optional AbortSignal, checked between network round trips.
+ * Aborting never cancels a transaction already submitted to the wallet.
+ */
+export class MiningChallengeClient {
+  readonly address: `0x${string}`;
+  readonly contract: ethers.Contract;
+
+  #instance: FhevmInstance | undefined;
+  #signer: ethers.Signer;
+  #readonlyRunner: ethers.ContractRunner;
+  #readonlyContract: ethers.Contract;
+  #storage: GenericStringStorage;
+  #signatureDurationDays: number | undefined;
+  #deployBlock: number | undefined;
+
+  /**
+   * @param parameters.instance FHEVM instance, needed to encrypt amounts and to decrypt
+   * (random yield mines and plain reads work without one)
+   * @param parameters.signer Account sending transactions and decrypting
+   * @param parameters.readonlyRunner Runner for view calls, defaults to the signer
+   * @param parameters.storage Cache of decryption signatures
+   * @param parameters.deployBlock Block the contract was deployed in, where log queries start
+   */
+  constructor(parameters: {
+    instance: FhevmInstance | undefined;
+    signer: ethers.Signer;
+    readonlyRunner?: ethers.ContractRunner;
+    storage: GenericStringStorage;
+    address: `0x${string}`;
+    signatureDurationDays?: number;
+    deployBlock?: number;
+  }) {
+    this.address = parameters.address;
+    this.#instance = parameters.instance;
+    this.#signer = parameters.signer;
+    this.#storage = parameters.storage;
+    this.#signatureDurationDays = parameters.signatureDurationDays;
+    this.#deployBlock = parameters.deployBlock;
+    this.#readonlyRunner = parameters.readonlyRunner ?? parameters.signer;
+    this.contract = new ethers.Contract(
+      parameters.address,
+      MiningChallengeABI.abi,
+      parameters.signer
+    );
+    this.#readonlyContract = new ethers.Contract(
+      parameters.address,
+      MiningChallengeABI.abi,
+      this.#readonlyRunner
+    );
+  }
+
+  #requireInstance(action: string): FhevmInstance {
+    if (!this.#instance) {
+      throw new Error(`MiningChallengeClient: an FHEVM instance is required to ${action}`);
+    }
+    return this.#instance;
+  }
+
+  #requireProvider(action: string): ethers.Provider {
+    const provider = this.#readonlyRunner.provider;
+    if (!provider) {
+      throw new Error(`MiningChallengeClient: a provider is required to ${action}`);
+    }
+    return provider;
+  }
+
+  async getPlayerAddress(): Promise<`0x${string}`> {
+    return (await this.#signer.getAddress()) as `0x${string}`;
+  }
+
+  async getCurrentSeason(options?: MiningChallengeClientOptions): Promise<number> {
+    _throwIfAborted(options?.signal);
+    return Number(await this.#readonlyContract.currentSeason());
+  }
+
+  async isRandomYieldMode(options?: MiningChallengeClientOptions): Promise<boolean> {
+    _throwIfAborted(options?.signal);
+    return Boolean(await this.#readonlyContract.randomYieldMode());
+  }
+
+  // Public per-mine cap; larger amounts would be silently clamped by the contract
+  async getMaxMineAmount(options?: MiningChallengeClientOptions): Promise<number> {
+    _throwIfAborted(options?.signal);
+    return Number(await this.#readonlyContract.maxMineAmount());
+  }
+
+  /**
+   * Mining mode, random yield bounds and the player's tool multiplier (1 without a tool).
+   */
+  async getYieldConfig(options?: MiningChallengeClientOptions): Promise<YieldConfig> {
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const [randomYieldMode, minYield, maxYield, toolMultiplier] = await Promise.all([
+      this.#readonlyContract.randomYieldMode(),
+      this.#readonlyContract.minYield(),
+      this.#readonlyContract.maxYield(),
+      this.#readonlyContract.toolMultiplier(player),
+    ]);
+    return {
+      randomYieldMode: Boolean(randomYieldMode),
+      minYield: Number(minYield),
+      maxYield: Number(maxYield),
+      // 0 and 1 both mean "no tool"
+      toolMultiplier: Math.max(1, Number(toolMultiplier)),
+    };
+  }
+
+  /**
+   * The player's mining cooldown in the current season and the chain clock.
+   * Chain time is the latest block timestamp advanced by the local time elapsed since it was
+   * fetched, so a skewed local clock never ends the countdown before the contract would.
+   */
+  async getMineCooldown(options?: MiningChallengeClientOptions): Promise<MineCooldown> {
+    const provider = this.#requireProvider("read the chain time");
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const [minMineInterval, exists, block] = await Promise.all([
+      this.#readonlyContract.minMineInterval() as Promise<bigint>,
+      this.#readonlyContract.playerExists(player) as Promise<boolean>,
+      provider.getBlock("latest"),
+    ]);
+    const localNow = Date.now() / 1000;
+    _throwIfAborted(options?.signal);
+    const lastMineTime: bigint | undefined = exists
+      ? await this.#readonlyContract.getPlayerLastMineTime(player)
+      : undefined;
+
+    const blockTimestamp = block?.timestamp ?? localNow;
+
+    return {
+      minMineInterval: Number(minMineInterval),
+      lastMineTime: lastMineTime === undefined ? undefined : Number(lastMineTime),
+      chainTimeOffset: blockTimestamp - localNow,
+    };
+  }
+
+  /**
+   * Ownership, the pause switch and the roles of the player's account.
+   */
+  async getAdminState(options?: MiningChallengeClientOptions): Promise<AdminState> {
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const [owner, pendingOwner, paused, adminRole, rewardManagerRole, pauserRole] =
+      await Promise.all([
+        this.#readonlyContract.owner(),
+        this.#readonlyContract.pendingOwner(),
+        this.#readonlyContract.paused(),
+        this.#readonlyContract.ADMIN_ROLE(),
+        this.#readonlyContract.REWARD_MANAGER_ROLE(),
+        this.#readonlyContract.PAUSER_ROLE(),
+      ]);
+    _throwIfAborted(options?.signal);
+    const [isAdmin, isRewardManager, isPauser] = await Promise.all([
+      this.#readonlyContract.hasRole(adminRole, player),
+      this.#readonlyContract.hasRole(rewardManagerRole, player),
+      this.#readonlyContract.hasRole(pauserRole, player),
+    ]);
+
+    return {
+      owner,
+      pendingOwner: pendingOwner === ethers.ZeroAddress ? undefined : pendingOwner,
+      isPaused: Boolean(paused),
+      isOwner: owner.toLowerCase() === player.toLowerCase(),
+      isAdmin: Boolean(isAdmin),
+      isRewardManager: Boolean(isRewardManager),
+      isPauser: Boolean(isPauser),
+    };
+  }
+
+  /**
+   * Reward token metadata and the player's claimable balance, or undefined while no reward
+   * token is configured.
+   */
+  async getRewards(options?: MiningChallengeClientOptions): Promise<Rewards | undefined> {
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const tokenAddress: string = await this.#readonlyContract.rewardToken();
+    if (tokenAddress === ethers.ZeroAddress) {
+      return undefined;
+    }
+    _throwIfAborted(options?.signal);
+
+    const token = new ethers.Contract(tokenAddress, ERC20_METADATA_ABI, this.#readonlyRunner);
+    const [symbol, decimals, claimable] = await Promise.all([
+      token.symbol().catch(() => "TOKEN"),
+      token.decimals().catch(() => BigInt(18)),
+      this.#readonlyContract.claimableRewards(player),
+    ]);
+    return {
+      token: {
+        address: tokenAddress as `0x${string}`,
+        symbol: String(symbol),
+        decimals: Number(decimals),
+      },
+      claimable: BigInt(claimable),
+    };
+  }
+
+  // Claims every reward allocated to the player
+  async claimReward(options?: TransactionOptions): Promise<ethers.TransactionReceipt | null> {
+    _throwIfAborted(options?.signal);
+    const tx: ethers.TransactionResponse = await this.contract.claimReward();
+    options?.onSubmitted?.(tx);
+    return tx.wait();
+  }
+
+  /**
+   * The player's PlayerMined logs since the deploy block, newest first, with block timestamps.
+   */
+  async getHistory(options?: MiningChallengeClientOptions): Promise<MiningHistoryEntry[]> {
+    const provider = this.#requireProvider("read block timestamps");
+    const player = await this.getPlayerAddress();
+
+    const logs = await queryLogsInChunks(
+      this.#readonlyContract,
+      this.#readonlyContract.filters.PlayerMined(player),
+      this.#deployBlock,
+      options
+    );
+
+    // One block lookup per distinct block for the timestamps
+    const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+    const blocks = await Promise.all(
+      blockNumbers.map((blockNumber) => provider.getBlock(blockNumber))
+    );
+    _throwIfAborted(options?.signal);
+    const timestamps = new Map<number, number>();
+    blocks.forEach((block, i) => timestamps.set(blockNumbers[i], block?.timestamp ?? 0));
+
+    return logs
+      .filter((log): log is ethers.EventLog => "args" in log)
+      .map((log) => ({
+        id: `${log.transactionHash}-${log.index}`,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        seasonId: Number(log.args.seasonId),
+        amountHandle: log.args.amountHandle,
+        totalHandle: log.args.totalHandle,
+      }))
+      .reverse();
+  }
+
+  /**
+   * Mines `amount` resources, encrypted client side. In random yield mode the amount is
+   * ignored and the contract draws an encrypted yield instead.
+   */
+  async mine(
+    amount: number | undefined,
+    options?: TransactionOptions
+  ): Promise<ethers.TransactionReceipt | null> {
+    const signal = options?.signal;
+    _throwIfAborted(signal);
+
+    let tx: ethers.TransactionResponse;
+    if (await this.isRandomYieldMode(options)) {
+      _throwIfAborted(signal);
+      tx = await this.contract.mineRandom();
+    } else {
+      if (amount === undefined || !Number.isInteger(amount) || amount <= 0) {
+        throw new RangeError("MiningChallengeClient: the amount must be a positive integer");
+      }
+      const instance = this.#requireInstance("encrypt the mined amount");
+      const input = instance.createEncryptedInput(this.address, await this.getPlayerAddress());
+      input.add32(amount);
+      const enc = await input.encrypt();
+      _throwIfAborted(signal);
+      tx = await this.contract.mine(enc.handles[0], enc.inputProof);
+    }
+
+    options?.onSubmitted?.(tx);
+    return tx.wait();
+  }
+
+  /**
+   * Handle of the player's encrypted total in `seasonId` (current season by default),
+   * or undefined if the player has not mined in that season.
+   */
+  async getTotalHandle(
+    seasonId?: number,
+    options?: MiningChallengeClientOptions
+  ): Promise<string | undefined> {
+    const thisSeasonId = seasonId ?? (await this.getCurrentSeason(options));
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const seasonPlayer = await this.#readonlyContract.seasonPlayers(thisSeasonId, player);
+    if (!seasonPlayer.exists) {
+      return undefined;
+    }
+    _throwIfAborted(options?.signal);
+    return this.#readonlyContract.getSeasonPlayerTotalMined(thisSeasonId, player);
+  }
+
+  /**
+   * Latest rank computed on-chain for the player, with the season it belongs to.
+   */
+  async getLastRank(
+    options?: MiningChallengeClientOptions
+  ): Promise<{ handle: string; seasonId: number; calculatedAt: number } | undefined> {
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(options?.signal);
+
+    const [handle, seasonId, calculatedAt]: [string, bigint, bigint] =
+      await this.#readonlyContract.getMyLastRank({ from: player });
+    if (handle === ethers.ZeroHash) {
+      return undefined;
+    }
+    return { handle, seasonId: Number(seasonId), calculatedAt: Number(calculatedAt) };
+  }
+
+  /**
+   * Decrypts handles of this contract with userDecryptHandles(), the path the React hooks use.
+   * Keys of the result are the lowercased handles; ZeroHash decrypts to 0 without a request.
+   */
+  async decryptHandles(
+    handles: readonly string[],
+    options?: MiningChallengeClientOptions
+  ): Promise<Record<string, bigint>> {
+    const signal = options?.signal;
+    const result: Record<string, bigint> = {};
+
+    const pending = Array.from(new Set(handles.map((handle) => handle.toLowerCase())));
+    for (const handle of pending) {
+      if (handle === ethers.ZeroHash) {
+        result[handle] = BigInt(0);
+      }
+    }
+    const toDecrypt = pending.filter((handle) => handle !== ethers.ZeroHash);
+    if (toDecrypt.length === 0) {
+      return result;
+    }
+
+    const instance = this.#requireInstance("decrypt");
+    _throwIfAborted(signal);
+
+    const res = await userDecryptHandles({
+      instance,
+      signer: this.#signer,
+      storage: this.#storage,
+      pairs: toDecrypt.map((handle) => ({ handle, contractAddress: this.address })),
+      durationDays: this.#signatureDurationDays,
+      signal,
+    });
+    if (!res) {
+      throw new Error("MiningChallengeClient: unable to build a decryption signature");
+    }
+
+    for (const [handle, value] of Object.entries(res)) {
+      const clear = decodeClearUint(value);
+      if (clear !== undefined) {
+        result[handle.toLowerCase()] = clear;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Player's total in `seasonId` (current season by default), or undefined if the player
+   * has not mined in that season.
+   */
+  async decryptTotal(
+    seasonId?: number,
+    options?: MiningChallengeClientOptions
+  ): Promise<bigint | undefined> {
+    const handle = await this.getTotalHandle(seasonId, options);
+    if (!handle) {
+      return undefined;
+    }
+    const res = await this.decryptHandles([handle], options);
+    return res[handle.toLowerCase()];
+  }
+
+  /**
+   * Runs the paged rank job for `seasonId`, resuming an unfinished one, and resolves to the
+   * handle of the encrypted rank. Each page is its own transaction so large leaderboards
+   * stay under the block gas limit.
+   */
+  async calculateRank(seasonId: number, options?: CalculateRankOptions): Promise<string> {
+    const handle = await this.#runRankJob(
+      seasonId,
+      {
+        getJob: (player) => this.#readonlyContract.rankJobs(player),
+        start: () => this.contract.startRankJob(seasonId),
+        processPage: (pageSize) => this.contract.processRankPage(pageSize),
+        finish: () => this.contract.finishRankJob(),
+        event: "RankCalculated",
+      },
+      options
+    );
+    if (handle) {
+      return handle;
+    }
+    // The contract emits the stored handle; fall back to the view if the log is unavailable
+    const lastRank = await this.getLastRank(options);
+    if (!lastRank) {
+      throw new Error("MiningChallengeClient: the rank job did not record a rank");
+    }
+    return lastRank.handle;
+  }
+
+  /**
+   * Same paged job as calculateRank() for the rank of the player's team among the teams that
+   * mined in `seasonId`. A job started for another team is restarted.
+   */
+  async calculateTeamRank(seasonId: number, options?: CalculateRankOptions): Promise<string> {
+    const player = await this.getPlayerAddress();
+    const teamId = Number(await this.#readonlyContract.playerTeam(player));
+    const handle = await this.#runRankJob(
+      seasonId,
+      {
+        getJob: async (account) => {
+          const job = await this.#readonlyContract.teamRankJobs(account);
+          return {
+            active: job.active && Number(job.teamId) === teamId,
+            seasonId: job.seasonId,
+            nextIndex: job.nextIndex,
+            endIndex: job.endIndex,
+          };
+        },
+        start: () => this.contract.startTeamRankJob(seasonId),
+        processPage: (pageSize) => this.contract.processTeamRankPage(pageSize),
+        finish: () => this.contract.finishTeamRankJob(),
+        event: "TeamRankCalculated",
+      },
+      options
+    );
+    if (!handle) {
+      throw new Error("MiningChallengeClient: the team rank job did not emit a rank");
+    }
+    return handle;
+  }
+
+  /**
+   * Drives a start/process/finish rank job of the contract and resolves to the rankHandle of
+   * `event` in the finish receipt, if any.
+   */
+  async #runRankJob(
+    seasonId: number,
+    job: {
+      getJob: (
+        player: string
+      ) => Promise<{ active: boolean; seasonId: bigint; nextIndex: bigint; endIndex: bigint }>;
+      start: () => Promise<ethers.TransactionResponse>;
+      processPage: (pageSize: number) => Promise<ethers.TransactionResponse>;
+      finish: () => Promise<ethers.TransactionResponse>;
+      event: string;
+    },
+    options?: CalculateRankOptions
+  ): Promise<string | undefined> {
+    const signal = options?.signal;
+    const pageSize = options?.pageSize ?? DEFAULT_RANK_PAGE_SIZE;
+    const player = await this.getPlayerAddress();
+    _throwIfAborted(signal);
+
+    const current = await job.getJob(player);
+    if (!current.active || Number(current.seasonId) !== seasonId) {
+      options?.onProgress?.("start", { page: 0, totalPages: 0 });
+      const startTx = await job.start();
+      await startTx.wait();
+    }
+    _throwIfAborted(signal);
+
+    const started = await job.getJob(player);
+    let processed = Number(started.nextIndex);
+    const total = Number(started.endIndex);
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+    while (processed < total) {
+      _throwIfAborted(signal);
+      options?.onProgress?.("page", {
+        page: Math.floor(processed / pageSize) + 1,
+        totalPages,
+      });
+      const pageTx = await job.processPage(pageSize);
+      await pageTx.wait();
+      processed = Math.min(processed + pageSize, total);
+    }
+
+    _throwIfAborted(signal);
+    options?.onProgress?.("finish", { page: totalPages, totalPages });
+    const finishTx = await job.finish();
+    const receipt = await finishTx.wait();
+
+    for (const log of receipt?.logs ?? []) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) {
+        continue;
+      }
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === job.event) {
+        return parsed.args.rankHandle;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Decrypts `rankHandle`, or the last rank computed on-chain when omitted.
+   */
+  async decryptRank(
+    rankHandle?: string,
+    options?: MiningChallengeClientOptions
+  ): Promise<bigint | undefined> {
+    const handle = rankHandle ?? (await this.getLastRank(options))?.handle;
+    if (!handle) {
+      return undefined;
+    }
+    const res = await this.decryptHandles([handle], options);
+    return res[handle.toLowerCase()];
+  }
+
+  async getPlayerCount(
+    seasonId?: number,
+    options?: MiningChallengeClientOptions
+  ): Promise<number> {
+    const thisSeasonId = seasonId ?? (await this.getCurrentSeason(options));
+    _throwIfAborted(options?.signal);
+    return Number(await this.#readonlyContract.getSeasonPlayerCount(thisSeasonId));
+  }
+
+  /**
+   * Players of `seasonId` (current season by default) with their last mine time, in join order.
+   */
+  async getPlayers(
+    seasonId?: number,
+    options?: MiningChallengeClientOptions
+  ): Promise<PlayerEntry[]> {
+    const thisSeasonId = seasonId ?? (await this.getCurrentSeason(options));
+    return loadSeasonPlayers(this.#readonlyContract, thisSeasonId, options);
+  }
+}
+
+/**
+ * Reads every player of `seasonId` with getSeasonPlayersPage(), one eth_call per
+ * PLAYERS_PAGE_SIZE players. Shared with the wallet-less views, which only have a
+ * read-only contract.
+ */
+export async function loadSeasonPlayers(
+  contract: ethers.Contract,
+  seasonId: number,
+  options?: MiningChallengeClientOptions & {
+    // Called after each page with the players loaded so far
+    onPage?: (players: PlayerEntry[]) => void;
+  }
+): Promise<PlayerEntry[]> {
+  const players: PlayerEntry[] = [];
+  for (let offset = 0; ; offset += PLAYERS_PAGE_SIZE) {
+    _throwIfAborted(options?.signal);
+    const [addresses, lastMineTimes, exists]: [string[], bigint[], boolean[]] =
+      await contract.getSeasonPlayersPage(seasonId, offset, PLAYERS_PAGE_SIZE);
+    for (let i = 0; i < addresses.length; ++i) {
+      if (exists[i]) {
+        players.push({
+          address: addresses[i] as `0x${string}`,
+          lastMineTime: Number(lastMineTimes[i]),
+        });
+      }
+    }
+    options?.onPage?.(players.slice());
+    if (addresses.length < PLAYERS_PAGE_SIZE) {
+      return players;
+    }
+  }
+}
+
+/**
+ * Runs `event` queries over [fromBlock, toBlock] in LOG_QUERY_CHUNK_BLOCKS ranges, oldest
+ * first. Without `fromBlock` (no deployBlock in the registry) only the last
+ * LOG_QUERY_FALLBACK_BLOCKS blocks are searched.
+ */
+export async function queryLogsInChunks(
+  contract: ethers.Contract,
+  event: ethers.ContractEventName,
+  fromBlock: number | undefined,
+  options?: MiningChallengeClientOptions & { toBlock?: number }
+): Promise<(ethers.EventLog | ethers.Log)[]> {
+  _throwIfAborted(options?.signal);
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("MiningChallengeClient: querying logs requires a provider");
+  }
+
+  const toBlock = options?.toBlock ?? (await provider.getBlockNumber());
+  const start = fromBlock ?? Math.max(0, toBlock - LOG_QUERY_FALLBACK_BLOCKS + 1);
+
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let from = start; from <= toBlock; from += LOG_QUERY_CHUNK_BLOCKS) {
+    _throwIfAborted(options?.signal);
+    const to = Math.min(from + LOG_QUERY_CHUNK_BLOCKS - 1, toBlock);
+    logs.push(...(await contract.queryFilter(event, from, to)));
+  }
+  return logs;
+}
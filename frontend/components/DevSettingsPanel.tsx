@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useDevSettings } from "@/hooks/useDevSettings";
+
+type MockChainRow = { chainId: string; rpcUrl: string };
+
+function _toRows(mockChains: Readonly<Record<number, string>>): MockChainRow[] {
+  return Object.entries(mockChains).map(([chainId, rpcUrl]) => ({ chainId, rpcUrl }));
+}
+
+/**
+ * Edits the FHEVM mock chains of this browser: chains listed here are served by a local
+ * mock node instead of the relayer. Saving recreates the FHEVM instance.
+ */
+export const DevSettingsPanel = () => {
+  const { mockChains, envMockChains, isCustomMockChains, saveMockChains, resetMockChains } =
+    useDevSettings();
+  const [rows, setRows] = useState<MockChainRow[]>(() => _toRows(mockChains));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Follow the saved settings (loaded after hydration, saved or reset)
+  useEffect(() => {
+    setRows(_toRows(mockChains));
+  }, [mockChains]);
+
+  const updateRow = (index: number, patch: Partial<MockChainRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const save = () => {
+    const value: Record<string, string> = {};
+    const duplicates: string[] = [];
+    for (const row of rows) {
+      const chainId = row.chainId.trim();
+      if (!chainId && !row.rpcUrl.trim()) {
+        continue;
+      }
+      if (chainId in value) {
+        duplicates.push(`Chain ${chainId} is listed more than once.`);
+      }
+      value[chainId] = row.rpcUrl.trim();
+    }
+    setErrors(duplicates.length > 0 ? duplicates : saveMockChains(value));
+  };
+
+  const reset = () => {
+    setErrors([]);
+    resetMockChains();
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+      <h2 className="text-2xl font-bold mb-2 text-white">Dev Settings</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        FHEVM mock chains ({isCustomMockChains ? "custom, saved in this browser" : "from env"}).
+        {Object.keys(envMockChains).length === 0 && " The env defines no mock chain."}
+      </p>
+
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={row.chainId}
+              onChange={(e) => updateRow(index, { chainId: e.target.value })}
+              placeholder="Chain id"
+              className="w-32 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={row.rpcUrl}
+              onChange={(e) => updateRow(index, { rpcUrl: e.target.value })}
+              placeholder="http://localhost:8545"
+              className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white font-mono text-sm focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+              className="px-3 py-2 bg-slate-700 rounded-lg hover:bg-slate-600 text-slate-300"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {rows.length === 0 && (
+          <p className="text-sm text-slate-500">No mock chain: every chain uses the relayer.</p>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 p-3 bg-red-950 border border-red-700 rounded-lg text-sm text-red-200 space-y-1">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={() => setRows((prev) => [...prev, { chainId: "", rpcUrl: "" }])}
+          className="px-4 py-2 bg-slate-700 rounded-lg hover:bg-slate-600 text-white"
+        >
+          Add Chain
+        </button>
+        <button
+          onClick={save}
+          className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 text-white font-semibold"
+        >
+          Save
+        </button>
+        <button
+          onClick={reset}
+          disabled={!isCustomMockChains}
+          className="px-4 py-2 bg-slate-700 rounded-lg hover:bg-slate-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset to Env
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,50 @@
 "use client";
 
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import {
+  useDecryptionSignatureStorage,
+  useStoredDecryptionSignatures,
+} from "@/hooks/useDecryptionSignatureStorage";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
-import { useMiningChallenge } from "@/hooks/useMiningChallenge";
-import { useState } from "react";
+import { getDeployedChains, useMiningChallenge } from "@/hooks/useMiningChallenge";
+import { useMiningTeam } from "@/hooks/useMiningTeam";
+import { PlayerDirectorySortType, usePlayerDirectory } from "@/hooks/usePlayerDirectory";
+import { decodeMiningChallengeError } from "@/hooks/miningChallengeErrors";
+import {
+  getSpectatorChains,
+  useMiningChallengeSpectator,
+} from "@/hooks/useMiningChallengeSpectator";
+import { DevSettingsPanel } from "@/components/DevSettingsPanel";
+import { NetworkSwitchPanel } from "@/components/NetworkSwitchPanel";
+import { SpectatorDashboard } from "@/components/SpectatorDashboard";
+import { WalletPickerModal } from "@/components/WalletPickerModal";
+import { ethers } from "ethers";
+import { useEffect, useMemo, useState } from "react";
 
-type TabType = "mining" | "ranking" | "info";
+type TabType = "mining" | "ranking" | "players" | "teams" | "history" | "info";
 
 export const MiningChallengeDemo = () => {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const {
+    storage: fhevmDecryptionSignatureStorage,
+    backend: signatureStorageBackend,
+    forgetSignatures,
+    signatureDurationDays,
+    canEncrypt: canEncryptSignatures,
+    isEncryptionEnabled: isSignatureEncryptionEnabled,
+    setEncryptionEnabled: setSignatureEncryptionEnabled,
+    isLocked: isSignatureStorageLocked,
+    unlock: unlockSignatureStorage,
+    lock: lockSignatureStorage,
+  } = useDecryptionSignatureStorage();
   const {
     provider,
     chainId,
     accounts,
     isConnected,
-    connect,
+    wallets,
+    walletInfo,
+    selectWallet,
+    disconnect,
     ethersSigner,
     ethersReadonlyProvider,
     sameChain,
@@ -27,6 +56,14 @@ export const MiningChallengeDemo = () => {
     instance: fhevmInstance,
     status: fhevmStatus,
     error: fhevmError,
+    instanceKind: fhevmInstanceKind,
+    mockRpcUrl: fhevmMockRpcUrl,
+    progress: fhevmProgress,
+    elapsedMs: fhevmElapsedMs,
+    errorCode: fhevmErrorCode,
+    retry: fhevmRetry,
+    retryInMs: fhevmRetryInMs,
+    refresh: refreshFhevm,
   } = useFhevm({
     provider,
     chainId,
@@ -37,6 +74,7 @@ export const MiningChallengeDemo = () => {
   const miningChallenge = useMiningChallenge({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays: signatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -45,8 +83,85 @@ export const MiningChallengeDemo = () => {
     sameSigner,
   });
 
+  const miningTeam = useMiningTeam({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays: signatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  });
+
+  // Follows the season selected on the Ranking tab
+  const playerDirectory = usePlayerDirectory({
+    chainId,
+    ethersReadonlyProvider,
+    seasonId: miningChallenge.selectedSeason,
+    sameChain,
+  });
+
+  // Mining credits the team total, so reload it whenever the player's own total changes
+  const { refreshTeam } = miningTeam;
+  useEffect(() => {
+    refreshTeam();
+  }, [refreshTeam, miningChallenge.handle]);
+
+  const storedSignatures = useStoredDecryptionSignatures(ethersSigner?.address);
+
+  // Public data for visitors without a connected wallet
+  const spectatorChains = useMemo(() => getSpectatorChains(), []);
+  // Empty when no chain of the address registry has a MiningChallenge address
+  const deployedChains = useMemo(() => getDeployedChains(), []);
+  const [spectatorChainId, setSpectatorChainId] = useState<number | undefined>(
+    spectatorChains[0]?.chainId
+  );
+  const spectator = useMiningChallengeSpectator({
+    chainId: spectatorChainId,
+    enabled: !isConnected,
+  });
+
   const [miningAmount, setMiningAmount] = useState<string>("10");
+  const [teamName, setTeamName] = useState<string>("");
+  const [inviteAddress, setInviteAddress] = useState<string>("");
+  const [signaturesForgotten, setSignaturesForgotten] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>("");
+  const [unlockError, setUnlockError] = useState<string | undefined>(undefined);
   const [activeTab, setActiveTab] = useState<TabType>("mining");
+  const [showWalletPicker, setShowWalletPicker] = useState<boolean>(false);
+
+  // Signatures are created by decryptions on other tabs, reload the list when System Info opens
+  const { refresh: refreshStoredSignatures } = storedSignatures;
+  useEffect(() => {
+    if (activeTab === "info") {
+      refreshStoredSignatures();
+    }
+  }, [activeTab, refreshStoredSignatures]);
+
+  const walletPicker = showWalletPicker && (
+    <WalletPickerModal
+      wallets={wallets}
+      walletInfo={walletInfo}
+      onSelect={selectWallet}
+      onDisconnect={disconnect}
+      onClose={() => setShowWalletPicker(false)}
+    />
+  );
+
+  if (!isConnected && spectatorChains.length > 0) {
+    return (
+      <>
+        <SpectatorDashboard
+          chains={spectatorChains}
+          spectator={spectator}
+          onChainChange={setSpectatorChainId}
+          onConnect={() => setShowWalletPicker(true)}
+        />
+        {walletPicker}
+      </>
+    );
+  }
 
   if (!isConnected) {
     return (
@@ -62,11 +177,19 @@ export const MiningChallengeDemo = () => {
           </div>
           <button
             className="px-8 py-4 bg-blue-600 text-white text-lg font-semibold rounded-lg hover:bg-blue-700 transition-colors shadow-lg"
-            onClick={connect}
+            onClick={() => setShowWalletPicker(true)}
           >
             Connect Wallet
           </button>
+          {deployedChains.length === 0 && (
+            <p className="mt-6 max-w-md mx-auto text-sm text-yellow-300">
+              The Mining Challenge contract is not deployed on any network yet, so spectating and
+              network switching are unavailable. Deploy it and run npm run generate:frontend in
+              contracts/ to list the network here.
+            </p>
+          )}
         </div>
+        {walletPicker}
       </div>
     );
   }
@@ -74,16 +197,27 @@ export const MiningChallengeDemo = () => {
   if (miningChallenge.isDeployed === false) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-900">
-        <div className="max-w-md mx-auto p-8 bg-red-900 text-red-100 rounded-lg border-2 border-red-700">
-          <h2 className="text-2xl font-bold mb-4">Contract Not Deployed</h2>
-          <p>
-            The Mining Challenge contract is not deployed on this network. Please switch to a supported network or deploy the contract first.
-          </p>
-        </div>
+        <NetworkSwitchPanel
+          provider={provider}
+          chainId={chainId}
+          onSwitchWallet={() => setShowWalletPicker(true)}
+        />
+        {walletPicker}
       </div>
     );
   }
 
+  // Hook messages take precedence; otherwise surface why the FHEVM instance is unavailable
+  const fhevmStatusError = fhevmError ? decodeMiningChallengeError(fhevmError) : undefined;
+  const statusMessage = miningChallenge.message || fhevmStatusError?.message;
+  const isStatusError = miningChallenge.message
+    ? Boolean(miningChallenge.error)
+    : Boolean(fhevmStatusError);
+
+  // Reloading is still useful while the mining cooldown runs
+  const canRefresh =
+    miningChallenge.isDeployed && !miningChallenge.isRefreshing && !miningChallenge.isMining;
+
   const TabButton = ({ tab, label }: { tab: TabType; label: string }) => (
     <button
       onClick={() => setActiveTab(tab)}
@@ -112,11 +246,21 @@ export const MiningChallengeDemo = () => {
               </p>
             </div>
             <div className="text-right">
-              <div className="text-sm text-slate-400">Connected Account</div>
-              <div className="text-sm font-mono bg-slate-700 px-3 py-1 rounded mt-1">
-                {ethersSigner?.address
-                  ? `${ethersSigner.address.slice(0, 6)}...${ethersSigner.address.slice(-4)}`
-                  : "Not connected"}
+              <div className="text-sm text-slate-400">
+                Connected Account{walletInfo ? ` (${walletInfo.name})` : ""}
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <div className="text-sm font-mono bg-slate-700 px-3 py-1 rounded">
+                  {ethersSigner?.address
+                    ? `${ethersSigner.address.slice(0, 6)}...${ethersSigner.address.slice(-4)}`
+                    : "Not connected"}
+                </div>
+                <button
+                  className="text-sm px-3 py-1 bg-slate-600 rounded hover:bg-slate-500 transition-colors"
+                  onClick={() => setShowWalletPicker(true)}
+                >
+                  Switch Wallet
+                </button>
               </div>
             </div>
           </div>
@@ -129,6 +273,9 @@ export const MiningChallengeDemo = () => {
           <div className="flex gap-2">
             <TabButton tab="mining" label="Mining" />
             <TabButton tab="ranking" label="Ranking" />
+            <TabButton tab="players" label="Players" />
+            <TabButton tab="teams" label="Teams" />
+            <TabButton tab="history" label="My History" />
             <TabButton tab="info" label="System Info" />
           </div>
         </div>
@@ -137,12 +284,16 @@ export const MiningChallengeDemo = () => {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-8">
         {/* Status Message */}
-        {miningChallenge.message && (
-          <div className="mb-6 p-4 bg-slate-800 border-l-4 border-blue-500 rounded-r-lg">
+        {statusMessage && (
+          <div
+            className={`mb-6 p-4 bg-slate-800 border-l-4 rounded-r-lg ${
+              isStatusError ? "border-red-500" : "border-blue-500"
+            }`}
+          >
             <div className="flex items-start">
               <div className="flex-shrink-0">
                 <svg
-                  className="h-5 w-5 text-blue-400 mt-0.5"
+                  className={`h-5 w-5 mt-0.5 ${isStatusError ? "text-red-400" : "text-blue-400"}`}
                   fill="currentColor"
                   viewBox="0 0 20 20"
                 >
@@ -155,7 +306,7 @@ export const MiningChallengeDemo = () => {
               </div>
               <div className="ml-3">
                 <p className="text-sm text-slate-200">
-                  {miningChallenge.message}
+                  {statusMessage}
                 </p>
               </div>
             </div>
@@ -169,6 +320,12 @@ export const MiningChallengeDemo = () => {
             <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
               <h2 className="text-2xl font-bold mb-6 text-white">
                 Your Mining Stats
+                {miningChallenge.selectedSeason !== undefined && (
+                  <span className="ml-3 text-base font-normal text-slate-400">
+                    Season {miningChallenge.selectedSeason}
+                    {miningChallenge.selectedSeason !== miningChallenge.currentSeason && " (archived)"}
+                  </span>
+                )}
               </h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-slate-700 rounded-lg p-5">
@@ -202,22 +359,53 @@ export const MiningChallengeDemo = () => {
                   Mine Resources
                 </h3>
                 <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm text-slate-400 mb-2">
-                      Amount to Mine
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      value={miningAmount}
-                      onChange={(e) => setMiningAmount(e.target.value)}
-                      className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
-                      placeholder="Enter amount"
-                    />
-                  </div>
+                  {miningChallenge.yieldConfig?.randomYieldMode ? (
+                    <div className="bg-slate-700 rounded-lg p-4 text-sm text-slate-300">
+                      <p>
+                        Random yield mode: each mine finds between{" "}
+                        {miningChallenge.yieldConfig.minYield} and {miningChallenge.yieldConfig.maxYield} resources,
+                        generated and kept encrypted on-chain.
+                      </p>
+                      {miningChallenge.yieldConfig.toolMultiplier > 1 && (
+                        <p className="mt-2 text-green-400">
+                          Your tool multiplies yields by x{miningChallenge.yieldConfig.toolMultiplier}.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm text-slate-400 mb-2">
+                        Amount to Mine
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max={miningChallenge.maxMineAmount}
+                        value={miningAmount}
+                        onChange={(e) => setMiningAmount(e.target.value)}
+                        className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                        placeholder="Enter amount"
+                      />
+                      {miningChallenge.maxMineAmount !== undefined && (
+                        <p
+                          className={`text-xs mt-2 ${
+                            parseInt(miningAmount) > miningChallenge.maxMineAmount
+                              ? "text-red-400"
+                              : "text-slate-500"
+                          }`}
+                        >
+                          Maximum per mine: {miningChallenge.maxMineAmount} resources
+                        </p>
+                      )}
+                    </div>
+                  )}
                   <button
                     disabled={!miningChallenge.canMine}
                     onClick={() => {
+                      if (miningChallenge.isRandomYieldMode) {
+                        miningChallenge.mine();
+                        return;
+                      }
                       const amount = parseInt(miningAmount);
                       if (amount > 0) {
                         miningChallenge.mine(amount);
@@ -231,10 +419,23 @@ export const MiningChallengeDemo = () => {
                   >
                     {miningChallenge.isMining
                       ? "Mining..."
+                      : miningChallenge.isPaused
+                      ? "Mining Paused"
+                      : miningChallenge.secondsUntilMine
+                      ? `Next Mine in ${formatCountdown(miningChallenge.secondsUntilMine)}`
                       : miningChallenge.canMine
-                      ? `Mine ${miningAmount} Resources`
+                      ? miningChallenge.isRandomYieldMode
+                        ? "Mine for a Random Yield"
+                        : `Mine ${miningAmount} Resources`
                       : "Cannot Mine"}
                   </button>
+                  {miningChallenge.minMineInterval !== undefined && (
+                    <p className="text-xs text-slate-500">
+                      Cooldown between mines: {formatCountdown(miningChallenge.minMineInterval)}
+                      {miningChallenge.nextMineAt !== undefined &&
+                        ` · next mine from ${new Date(miningChallenge.nextMineAt * 1000).toLocaleTimeString()} (chain time)`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -270,10 +471,27 @@ export const MiningChallengeDemo = () => {
                       : "Decrypt Total"}
                   </button>
                   <button
-                    disabled={!miningChallenge.canMine}
-                    onClick={miningChallenge.refreshPlayerTotal}
+                    disabled={!miningChallenge.canDecryptAll}
+                    onClick={miningChallenge.decryptAll}
+                    title="Decrypt your total, rank and mining history with a single signature"
                     className={`w-full px-6 py-3 rounded-lg font-semibold transition-colors ${
-                      miningChallenge.canMine
+                      miningChallenge.canDecryptAll
+                        ? "bg-emerald-700 hover:bg-emerald-800 text-white"
+                        : "bg-slate-700 text-slate-500 cursor-not-allowed"
+                    }`}
+                  >
+                    {miningChallenge.isDecrypting && miningChallenge.isDecryptingRank
+                      ? "Decrypting..."
+                      : "Decrypt All"}
+                  </button>
+                  <button
+                    disabled={!canRefresh}
+                    onClick={() => {
+                      miningChallenge.refreshPlayerTotal();
+                      miningChallenge.refreshCooldown();
+                    }}
+                    className={`w-full px-6 py-3 rounded-lg font-semibold transition-colors ${
+                      canRefresh
                         ? "bg-slate-700 hover:bg-slate-600 text-white"
                         : "bg-slate-700 text-slate-500 cursor-not-allowed"
                     }`}
@@ -292,9 +510,47 @@ export const MiningChallengeDemo = () => {
         {activeTab === "ranking" && (
           <div className="space-y-6">
             <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
-              <h2 className="text-2xl font-bold mb-6 text-white">
-                Your Ranking
-              </h2>
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-white">
+                  Your Ranking
+                </h2>
+                {miningChallenge.currentSeason !== undefined && (
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm text-slate-400">Season</label>
+                    <select
+                      value={miningChallenge.selectedSeason ?? miningChallenge.currentSeason}
+                      onChange={(e) => miningChallenge.selectSeason(parseInt(e.target.value))}
+                      disabled={miningChallenge.isCalculatingRank || miningChallenge.isDecryptingRank}
+                      className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                    >
+                      {Array.from({ length: miningChallenge.currentSeason }, (_, i) => miningChallenge.currentSeason! - i).map(
+                        (seasonId) => (
+                          <option key={seasonId} value={seasonId}>
+                            {seasonId === miningChallenge.currentSeason
+                              ? `Season ${seasonId} (current)`
+                              : `Season ${seasonId}`}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="mb-6 p-4 bg-slate-700 rounded-lg">
+                <div className="flex justify-between items-center">
+                  <span className="text-slate-300">
+                    Season {miningChallenge.selectedSeason ?? "-"} total:
+                  </span>
+                  <span className="text-xl font-bold text-white">
+                    {!miningChallenge.handle
+                      ? "No mining this season"
+                      : miningChallenge.isDecrypted
+                      ? `${miningChallenge.clear?.toString()} resources`
+                      : "Encrypted"}
+                  </span>
+                </div>
+              </div>
 
               {miningChallenge.playerRank !== undefined && (
                 <div className="mb-6 p-6 bg-blue-900 border-2 border-blue-700 rounded-lg">
@@ -325,7 +581,11 @@ export const MiningChallengeDemo = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <button
                   disabled={!miningChallenge.canCalculateRank}
-                  onClick={miningChallenge.calculateMyRank}
+                  onClick={() => {
+                    if (miningChallenge.selectedSeason !== undefined) {
+                      miningChallenge.calculateMyRank(miningChallenge.selectedSeason);
+                    }
+                  }}
                   className={`px-6 py-4 rounded-lg font-semibold text-lg transition-colors ${
                     miningChallenge.canCalculateRank
                       ? "bg-blue-600 hover:bg-blue-700 text-white"
@@ -333,7 +593,9 @@ export const MiningChallengeDemo = () => {
                   }`}
                 >
                   {miningChallenge.isCalculatingRank
-                    ? "Calculating..."
+                    ? miningChallenge.rankProgress
+                      ? `Calculating... page ${miningChallenge.rankProgress.page}/${miningChallenge.rankProgress.totalPages}`
+                      : "Calculating..."
                     : "Calculate My Rank"}
                 </button>
                 <button
@@ -365,6 +627,41 @@ export const MiningChallengeDemo = () => {
               )}
             </div>
 
+            {miningChallenge.rewardToken && (
+              <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+                <h3 className="text-xl font-bold mb-4 text-white">
+                  Season Rewards
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                  <div className="bg-slate-700 rounded-lg p-4">
+                    <div className="text-sm text-slate-400 mb-2">
+                      Claimable Reward
+                    </div>
+                    <div className="text-2xl font-bold text-green-400">
+                      {ethers.formatUnits(
+                        miningChallenge.claimableReward ?? BigInt(0),
+                        miningChallenge.rewardToken.decimals
+                      )}{" "}
+                      {miningChallenge.rewardToken.symbol}
+                    </div>
+                  </div>
+                  <button
+                    disabled={!miningChallenge.canClaimReward}
+                    onClick={miningChallenge.claimReward}
+                    className={`px-6 py-4 rounded-lg font-semibold text-lg transition-colors ${
+                      miningChallenge.canClaimReward
+                        ? "bg-green-600 hover:bg-green-700 text-white"
+                        : "bg-slate-700 text-slate-500 cursor-not-allowed"
+                    }`}
+                  >
+                    {miningChallenge.isClaimingReward
+                      ? "Claiming..."
+                      : "Claim Reward"}
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
               <h3 className="text-lg font-semibold mb-3 text-white">
                 About Rankings
@@ -373,6 +670,9 @@ export const MiningChallengeDemo = () => {
                 <p>
                   • Rankings are calculated based on your total mined resources
                 </p>
+                <p>
+                  • Each season has its own leaderboard; past seasons stay browsable
+                </p>
                 <p>
                   • Click "Calculate My Rank" to compute your current position
                 </p>
@@ -387,6 +687,337 @@ export const MiningChallengeDemo = () => {
           </div>
         )}
 
+        {/* Teams Tab */}
+        {activeTab === "teams" && (
+          <div className="space-y-6">
+            {miningTeam.message && (
+              <div className="p-4 bg-slate-800 border-l-4 border-purple-500 rounded-r-lg">
+                <p className="text-sm text-slate-200">{miningTeam.message}</p>
+              </div>
+            )}
+
+            {miningTeam.team ? (
+              <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-2xl font-bold text-white">
+                    {miningTeam.team.name}
+                  </h2>
+                  <button
+                    disabled={miningTeam.isBusy}
+                    onClick={miningTeam.leaveTeam}
+                    className="px-4 py-2 rounded-lg font-semibold bg-red-700 hover:bg-red-600 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                  >
+                    Leave Team
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                  <div className="bg-slate-700 rounded-lg p-4">
+                    <div className="text-sm text-slate-400 mb-1">
+                      Team Total (Season {miningTeam.currentSeason ?? "-"})
+                    </div>
+                    <div className="text-2xl font-bold text-white">
+                      {!miningTeam.teamTotalHandle
+                        ? "No mining yet"
+                        : miningTeam.clearTeamTotal !== undefined
+                        ? `${miningTeam.clearTeamTotal.toString()} Resources`
+                        : "Encrypted"}
+                    </div>
+                  </div>
+                  <div className="bg-slate-700 rounded-lg p-4">
+                    <div className="text-sm text-slate-400 mb-1">Team Rank</div>
+                    <div className="text-2xl font-bold text-white">
+                      {!miningTeam.teamRankHandle
+                        ? "Not calculated"
+                        : miningTeam.clearTeamRank !== undefined
+                        ? `#${miningTeam.clearTeamRank.toString()}`
+                        : "Encrypted"}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex gap-3 mb-6">
+                  <button
+                    disabled={!miningTeam.canCalculateTeamRank}
+                    onClick={miningTeam.calculateTeamRank}
+                    className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+                      miningTeam.canCalculateTeamRank
+                        ? "bg-blue-600 hover:bg-blue-700 text-white"
+                        : "bg-slate-700 text-slate-500 cursor-not-allowed"
+                    }`}
+                  >
+                    {miningTeam.teamRankProgress
+                      ? `Calculating... page ${miningTeam.teamRankProgress.page}/${miningTeam.teamRankProgress.totalPages}`
+                      : "Calculate Team Rank"}
+                  </button>
+                  <button
+                    disabled={!miningTeam.canDecryptTeam}
+                    onClick={miningTeam.decryptTeam}
+                    className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+                      miningTeam.canDecryptTeam
+                        ? "bg-green-600 hover:bg-green-700 text-white"
+                        : "bg-slate-700 text-slate-500 cursor-not-allowed"
+                    }`}
+                  >
+                    {miningTeam.isDecrypting ? "Decrypting..." : "Decrypt Team Stats"}
+                  </button>
+                </div>
+
+                <h3 className="text-lg font-semibold text-white mb-3">Members</h3>
+                <div className="space-y-2 mb-6">
+                  {miningTeam.team.members.map((member) => (
+                    <InfoRow
+                      key={member}
+                      label={member === miningTeam.team!.leader ? "Leader" : "Member"}
+                      value={`${member.slice(0, 10)}...${member.slice(-8)}`}
+                    />
+                  ))}
+                </div>
+
+                {miningTeam.team.isLeader && (
+                  <div className="flex gap-3">
+                    <input
+                      type="text"
+                      value={inviteAddress}
+                      onChange={(e) => setInviteAddress(e.target.value)}
+                      placeholder="Player address (0x...)"
+                      className="flex-1 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                    />
+                    <button
+                      disabled={miningTeam.isBusy || inviteAddress.length === 0}
+                      onClick={() => miningTeam.inviteToTeam(inviteAddress)}
+                      className="px-6 py-3 rounded-lg font-semibold bg-purple-600 hover:bg-purple-700 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                    >
+                      Invite
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-6">
+                <h2 className="text-2xl font-bold text-white">Join a Team</h2>
+
+                {miningTeam.invites.length > 0 ? (
+                  <div className="space-y-2">
+                    {miningTeam.invites.map((invite) => (
+                      <div
+                        key={invite.teamId}
+                        className="flex justify-between items-center bg-slate-700 rounded-lg p-4"
+                      >
+                        <div>
+                          <div className="font-semibold text-white">{invite.name}</div>
+                          <div className="text-sm text-slate-400">
+                            Invited by {`${invite.inviter.slice(0, 6)}...${invite.inviter.slice(-4)}`}
+                          </div>
+                        </div>
+                        <button
+                          disabled={miningTeam.isBusy}
+                          onClick={() => miningTeam.acceptInvite(invite.teamId)}
+                          className="px-4 py-2 rounded-lg font-semibold bg-green-600 hover:bg-green-700 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                        >
+                          Accept
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-slate-400">
+                    {miningTeam.isRefreshing ? "Loading invites..." : "No pending invites."}
+                  </p>
+                )}
+
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={teamName}
+                    onChange={(e) => setTeamName(e.target.value)}
+                    placeholder="Team name"
+                    maxLength={32}
+                    className="flex-1 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                  />
+                  <button
+                    disabled={miningTeam.isBusy || teamName.trim().length === 0}
+                    onClick={() => miningTeam.createTeam(teamName)}
+                    className="px-6 py-3 rounded-lg font-semibold bg-purple-600 hover:bg-purple-700 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                  >
+                    Create Team
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Players Tab */}
+        {activeTab === "players" && (
+          <div className="space-y-6">
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-white">
+                  Players
+                  {miningChallenge.selectedSeason !== undefined &&
+                    ` - Season ${miningChallenge.selectedSeason}`}
+                </h2>
+                <button
+                  disabled={playerDirectory.isLoading}
+                  onClick={playerDirectory.refresh}
+                  className="px-4 py-2 rounded-lg font-semibold bg-slate-700 hover:bg-slate-600 text-white disabled:text-slate-500 disabled:cursor-not-allowed"
+                >
+                  {playerDirectory.isLoading ? "Loading..." : "Refresh"}
+                </button>
+              </div>
+
+              {playerDirectory.message && (
+                <p className="mb-4 text-red-300">{playerDirectory.message}</p>
+              )}
+
+              <div className="flex gap-3 mb-4">
+                <input
+                  type="text"
+                  value={playerDirectory.search}
+                  onChange={(e) => playerDirectory.setSearch(e.target.value)}
+                  placeholder="Search by address (0x...)"
+                  className="flex-1 px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white font-mono focus:outline-none focus:border-blue-500"
+                />
+                <select
+                  value={playerDirectory.sort}
+                  onChange={(e) =>
+                    playerDirectory.setSort(e.target.value as PlayerDirectorySortType)
+                  }
+                  className="px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+                >
+                  <option value="recent">Most recently active</option>
+                  <option value="oldest">Least recently active</option>
+                  <option value="joined">Join order</option>
+                </select>
+              </div>
+
+              {playerDirectory.pagePlayers.length === 0 ? (
+                <p className="text-slate-400">
+                  {playerDirectory.isLoading
+                    ? "Loading players..."
+                    : playerDirectory.search
+                      ? "No player matches this address."
+                      : "Nobody has mined in this season yet."}
+                </p>
+              ) : (
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-sm text-slate-400 border-b border-slate-700">
+                      <th className="py-2">Player</th>
+                      <th className="py-2">Last Mined</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {playerDirectory.pagePlayers.map((player) => (
+                      <tr key={player.address} className="border-b border-slate-700/50 text-slate-200">
+                        <td className="py-2 font-mono">
+                          {player.address}
+                          {player.address.toLowerCase() === ethersSigner?.address.toLowerCase() && (
+                            <span className="ml-2 text-xs text-blue-300">(you)</span>
+                          )}
+                        </td>
+                        <td className="py-2">{new Date(player.lastMineTime * 1000).toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="flex justify-between items-center mt-4 text-sm text-slate-400">
+                <span>
+                  {playerDirectory.matchCount} of {playerDirectory.playerCount ?? 0} players
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    disabled={playerDirectory.page === 0}
+                    onClick={() => playerDirectory.setPage(playerDirectory.page - 1)}
+                    className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-white disabled:text-slate-500 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <span>
+                    Page {playerDirectory.page + 1} / {playerDirectory.pageCount}
+                  </span>
+                  <button
+                    disabled={playerDirectory.page >= playerDirectory.pageCount - 1}
+                    onClick={() => playerDirectory.setPage(playerDirectory.page + 1)}
+                    className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-white disabled:text-slate-500 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* History Tab */}
+        {activeTab === "history" && (
+          <div className="space-y-6">
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-white">
+                  My Mining History
+                </h2>
+                <div className="flex gap-3">
+                  <button
+                    disabled={miningChallenge.isLoadingHistory}
+                    onClick={miningChallenge.refreshHistory}
+                    className="px-4 py-2 rounded-lg font-semibold bg-slate-700 hover:bg-slate-600 text-white disabled:text-slate-500 disabled:cursor-not-allowed"
+                  >
+                    {miningChallenge.isLoadingHistory ? "Loading..." : "Refresh"}
+                  </button>
+                  <button
+                    disabled={!miningChallenge.canDecryptHistory}
+                    onClick={miningChallenge.decryptHistory}
+                    className={`px-4 py-2 rounded-lg font-semibold transition-colors ${
+                      miningChallenge.canDecryptHistory
+                        ? "bg-green-600 hover:bg-green-700 text-white"
+                        : "bg-slate-700 text-slate-500 cursor-not-allowed"
+                    }`}
+                  >
+                    {miningChallenge.isDecryptingHistory ? "Decrypting..." : "Decrypt History"}
+                  </button>
+                </div>
+              </div>
+
+              {!miningChallenge.history || miningChallenge.history.length === 0 ? (
+                <p className="text-slate-400">
+                  {miningChallenge.isLoadingHistory
+                    ? "Loading your mining actions..."
+                    : "No mining actions yet."}
+                </p>
+              ) : (
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-sm text-slate-400 border-b border-slate-700">
+                      <th className="py-2">Time</th>
+                      <th className="py-2">Season</th>
+                      <th className="py-2">Mined</th>
+                      <th className="py-2">Running Total</th>
+                      <th className="py-2">Transaction</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {miningChallenge.history.map((entry) => (
+                      <tr key={entry.id} className="border-b border-slate-700/50 text-slate-200">
+                        <td className="py-2">{new Date(entry.timestamp * 1000).toLocaleString()}</td>
+                        <td className="py-2">{entry.seasonId}</td>
+                        <td className="py-2 font-mono">{entry.amount?.toString() ?? "Encrypted"}</td>
+                        <td className="py-2 font-mono">{entry.total?.toString() ?? "Encrypted"}</td>
+                        <td className="py-2 font-mono text-sm">
+                          {`${entry.txHash.slice(0, 10)}...${entry.txHash.slice(-6)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* System Info Tab */}
         {activeTab === "info" && (
           <div className="space-y-6">
@@ -410,6 +1041,10 @@ export const MiningChallengeDemo = () => {
                   value={miningChallenge.isDeployed ? "Deployed" : "Not deployed"}
                   valueColor={miningChallenge.isDeployed ? "text-green-400" : "text-red-400"}
                 />
+                <InfoRow
+                  label="Current Season"
+                  value={miningChallenge.currentSeason?.toString() || "Unknown"}
+                />
               </div>
             </div>
 
@@ -434,6 +1069,203 @@ export const MiningChallengeDemo = () => {
               </div>
             </div>
 
+            {/* Admin Info */}
+            {miningChallenge.adminState && (
+              <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+                <h2 className="text-2xl font-bold mb-4 text-white">
+                  Administration
+                </h2>
+                <div className="space-y-3">
+                  <InfoRow
+                    label="Owner"
+                    value={`${miningChallenge.adminState.owner.slice(0, 10)}...${miningChallenge.adminState.owner.slice(-8)}`}
+                  />
+                  {miningChallenge.adminState.pendingOwner && (
+                    <InfoRow
+                      label="Pending Owner"
+                      value={`${miningChallenge.adminState.pendingOwner.slice(0, 10)}...${miningChallenge.adminState.pendingOwner.slice(-8)}`}
+                      valueColor="text-yellow-400"
+                    />
+                  )}
+                  <InfoRow
+                    label="Game Status"
+                    value={miningChallenge.adminState.isPaused ? "Paused" : "Running"}
+                    valueColor={miningChallenge.adminState.isPaused ? "text-red-400" : "text-green-400"}
+                  />
+                  <InfoRow
+                    label="Your Roles"
+                    value={
+                      [
+                        miningChallenge.adminState.isOwner && "Owner",
+                        miningChallenge.adminState.isAdmin && "Admin",
+                        miningChallenge.adminState.isRewardManager && "Reward Manager",
+                        miningChallenge.adminState.isPauser && "Pauser",
+                      ]
+                        .filter(Boolean)
+                        .join(", ") || "Player"
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Decryption Signatures */}
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+              <h2 className="text-2xl font-bold mb-4 text-white">
+                Decryption Signatures
+              </h2>
+              <div className="space-y-3">
+                <InfoRow
+                  label="Storage"
+                  value={
+                    signatureStorageBackend === "indexedDB"
+                      ? "IndexedDB (this browser)"
+                      : signatureStorageBackend === "localStorage"
+                      ? "localStorage (this browser)"
+                      : "Memory (until reload)"
+                  }
+                />
+                <InfoRow
+                  label="Lifetime of New Signatures"
+                  value={`${signatureDurationDays} day${signatureDurationDays === 1 ? "" : "s"}`}
+                />
+                {isSignatureStorageLocked !== undefined ? (
+                  <InfoRow
+                    label="Encryption"
+                    value={isSignatureStorageLocked ? "Locked" : "Unlocked"}
+                    valueColor={isSignatureStorageLocked ? "text-yellow-400" : "text-green-400"}
+                  />
+                ) : (
+                  canEncryptSignatures && <InfoRow label="Encryption" value="Off" />
+                )}
+              </div>
+              <h3 className="text-lg font-semibold text-white mt-6 mb-3">Active Signatures</h3>
+              {storedSignatures.signatures.length === 0 ? (
+                <p className="text-sm text-slate-400">
+                  {isSignatureStorageLocked
+                    ? "Unlock to see your stored signatures."
+                    : "No stored signatures. Your next decryption will ask you to sign."}
+                </p>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="text-slate-400 border-b border-slate-700">
+                      <th className="py-2">Contracts</th>
+                      <th className="py-2">Signed</th>
+                      <th className="py-2">Expires</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {storedSignatures.signatures.map(({ key, signature }) => (
+                      <tr key={key} className="border-b border-slate-700/50 text-slate-200">
+                        <td className="py-2 font-mono">
+                          {signature.contractAddresses
+                            .map((address) => `${address.slice(0, 6)}...${address.slice(-4)}`)
+                            .join(", ")}
+                        </td>
+                        <td className="py-2">
+                          {new Date(signature.startTimestamp * 1000).toLocaleString()}
+                        </td>
+                        <td className="py-2">
+                          {new Date(signature.expiresAt * 1000).toLocaleString()}
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => {
+                              storedSignatures
+                                .revoke(key)
+                                .catch((e) => console.error("Failed to revoke signature:", e));
+                            }}
+                            className="px-3 py-1 rounded-lg font-semibold bg-red-700 hover:bg-red-600 text-white"
+                          >
+                            Revoke
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {isSignatureStorageLocked === true && (
+                <div className="mt-4 space-y-2">
+                  <p className="text-sm text-slate-400">
+                    Stored signatures are encrypted with your passphrase. Unlock to reuse them; while locked,
+                    decryptions ask for a new signature, which is kept in memory and saved at the next unlock.
+                    The first unlock sets the passphrase.
+                  </p>
+                  <div className="flex gap-3">
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder="Passphrase"
+                      className="flex-1 px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500"
+                    />
+                    <button
+                      disabled={passphrase.length === 0}
+                      onClick={() => {
+                        unlockSignatureStorage(passphrase)
+                          .then((ok) => {
+                            setUnlockError(ok ? undefined : "Wrong passphrase.");
+                            if (ok) {
+                              setPassphrase("");
+                            }
+                          })
+                          .catch((e) => {
+                            console.error("Failed to unlock signatures:", e);
+                            setUnlockError("Unable to unlock the signature storage.");
+                          });
+                      }}
+                      className="px-4 py-2 rounded-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed"
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                  {unlockError && <p className="text-sm text-red-400">{unlockError}</p>}
+                </div>
+              )}
+              {isSignatureStorageLocked === false && (
+                <button
+                  onClick={lockSignatureStorage}
+                  className="mt-4 mr-3 px-4 py-2 rounded-lg font-semibold bg-slate-700 hover:bg-slate-600 text-white"
+                >
+                  Lock Now
+                </button>
+              )}
+              {canEncryptSignatures && (
+                <button
+                  onClick={() => {
+                    setSignatureEncryptionEnabled(!isSignatureEncryptionEnabled)
+                      .then(() => refreshStoredSignatures())
+                      .catch((e) => console.error("Failed to change signature encryption:", e));
+                  }}
+                  title="Switching forgets your stored signatures"
+                  className="mt-4 mr-3 px-4 py-2 rounded-lg font-semibold bg-slate-700 hover:bg-slate-600 text-white"
+                >
+                  {isSignatureEncryptionEnabled ? "Stop Encrypting" : "Encrypt With a Passphrase"}
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  forgetSignatures()
+                    .then(() => {
+                      setSignaturesForgotten(true);
+                      refreshStoredSignatures();
+                    })
+                    .catch((e) => console.error("Failed to forget signatures:", e));
+                }}
+                className="mt-4 px-4 py-2 rounded-lg font-semibold bg-red-700 hover:bg-red-600 text-white"
+              >
+                Forget My Signatures
+              </button>
+              {signaturesForgotten && (
+                <p className="text-sm text-slate-400 mt-2">
+                  Stored signatures removed. The next decryption will ask you to sign again.
+                </p>
+              )}
+            </div>
+
             {/* FHEVM Status */}
             <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
               <h2 className="text-2xl font-bold mb-4 text-white">
@@ -445,7 +1277,34 @@ export const MiningChallengeDemo = () => {
                   value={fhevmInstance ? "Initialized" : "Not initialized"}
                   valueColor={fhevmInstance ? "text-green-400" : "text-yellow-400"}
                 />
+                <InfoRow
+                  label="Instance Type"
+                  value={
+                    fhevmInstanceKind === "mock"
+                      ? `Mock (${fhevmMockRpcUrl})`
+                      : fhevmInstanceKind === "relayer"
+                        ? "Relayer SDK"
+                        : "Unknown"
+                  }
+                  valueColor={fhevmInstanceKind === "mock" ? "text-yellow-400" : undefined}
+                />
                 <InfoRow label="Connection Status" value={fhevmStatus} />
+                {fhevmProgress && <InfoRow label="Progress" value={fhevmProgress} />}
+                {fhevmElapsedMs !== undefined && (
+                  <InfoRow label="Elapsed" value={`${(fhevmElapsedMs / 1000).toFixed(1)}s`} />
+                )}
+                {fhevmRetry && (
+                  <InfoRow
+                    label="Retry"
+                    value={`${fhevmRetry.attempt}/${fhevmRetry.maxAttempts} in ${Math.ceil(
+                      (fhevmRetryInMs ?? 0) / 1000
+                    )}s (${fhevmRetry.error.message})`}
+                    valueColor="text-yellow-400"
+                  />
+                )}
+                {fhevmErrorCode && (
+                  <InfoRow label="Error Code" value={fhevmErrorCode} valueColor="text-red-400" />
+                )}
                 {fhevmError && (
                   <InfoRow
                     label="Error"
@@ -454,8 +1313,17 @@ export const MiningChallengeDemo = () => {
                   />
                 )}
               </div>
+              <button
+                onClick={refreshFhevm}
+                disabled={fhevmStatus === "loading" && !fhevmRetry}
+                className="mt-4 px-4 py-2 rounded-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {fhevmRetry ? "Retry Now" : "Retry"}
+              </button>
             </div>
 
+            <DevSettingsPanel />
+
             {/* Operation Status */}
             <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
               <h2 className="text-2xl font-bold mb-4 text-white">
@@ -491,11 +1359,23 @@ export const MiningChallengeDemo = () => {
           </div>
         )}
       </div>
+      {walletPicker}
     </div>
   );
 };
 
 // Helper Components
+// Formats a number of seconds as "42s", "3m 05s" or "1h 02m"
+const formatCountdown = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${String(Math.floor((seconds % 3600) / 60)).padStart(2, "0")}m`;
+};
+
 const InfoRow = ({
   label,
   value,
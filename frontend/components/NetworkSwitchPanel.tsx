@@ -0,0 +1,90 @@
+"use client";
+
+import type { Eip1193Provider } from "ethers";
+import { useMemo, useState } from "react";
+
+import { switchOrAddChain } from "@/hooks/metamask/switchChain";
+import { decodeMiningChallengeError } from "@/hooks/miningChallengeErrors";
+import { getDeployedChains } from "@/hooks/useMiningChallenge";
+
+/**
+ * Shown when the wallet is on a chain without a MiningChallenge deployment: lists the
+ * chains that have one and switches the wallet there (adding the chain if needed).
+ */
+export const NetworkSwitchPanel = ({
+  provider,
+  chainId,
+  onSwitchWallet,
+}: {
+  provider: Eip1193Provider | undefined;
+  chainId: number | undefined;
+  onSwitchWallet: () => void;
+}) => {
+  const chains = useMemo(() => getDeployedChains(), []);
+  const [switchingChainId, setSwitchingChainId] = useState<number | undefined>(undefined);
+  const [errorMessage, setErrorMessage] = useState<string | undefined>(undefined);
+
+  const switchTo = (chain: (typeof chains)[number]) => {
+    if (!provider || switchingChainId !== undefined) {
+      return;
+    }
+
+    setSwitchingChainId(chain.chainId);
+    setErrorMessage(undefined);
+
+    const run = async () => {
+      try {
+        // The wallet emits chainChanged on success, which reloads the whole app state
+        await switchOrAddChain(provider, chain);
+      } catch (e) {
+        setErrorMessage(decodeMiningChallengeError(e).message);
+      } finally {
+        setSwitchingChainId(undefined);
+      }
+    };
+
+    run();
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-8 bg-red-900 text-red-100 rounded-lg border-2 border-red-700">
+      <h2 className="text-2xl font-bold mb-4">Contract Not Deployed</h2>
+      <p>
+        The Mining Challenge contract is not deployed on this network
+        {chainId !== undefined ? ` (chain ${chainId})` : ""}.
+        {chains.length > 0
+          ? " Switch your wallet to one of the supported networks:"
+          : " No network has a deployment yet: deploy the contract, then regenerate the frontend addresses (npm run generate:frontend in contracts/)."}
+      </p>
+
+      {chains.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {chains.map((chain) => (
+            <button
+              key={chain.chainId}
+              disabled={!provider || switchingChainId !== undefined}
+              onClick={() => switchTo(chain)}
+              className="w-full flex justify-between items-center px-4 py-3 bg-red-800 rounded-lg hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+            >
+              <span className="font-semibold">{chain.chainName ?? `Chain ${chain.chainId}`}</span>
+              <span className="text-sm text-red-200">
+                {switchingChainId === chain.chainId ? "Check your wallet..." : `Chain ${chain.chainId}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errorMessage && (
+        <p className="mt-4 p-3 bg-red-950 border border-red-700 rounded-lg text-sm">{errorMessage}</p>
+      )}
+
+      <button
+        className="mt-4 px-4 py-2 bg-red-700 rounded-lg hover:bg-red-800 transition-colors"
+        onClick={onSwitchWallet}
+      >
+        Switch Wallet
+      </button>
+    </div>
+  );
+};
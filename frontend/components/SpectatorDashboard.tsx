@@ -0,0 +1,201 @@
+"use client";
+
+import type {
+  SpectatorChainType,
+  useMiningChallengeSpectator,
+} from "@/hooks/useMiningChallengeSpectator";
+
+/**
+ * Read-only dashboard shown before a wallet is connected. Everything here is public chain
+ * data; mining, decryption and ranking ask to connect a wallet first.
+ */
+export const SpectatorDashboard = ({
+  chains,
+  spectator,
+  onChainChange,
+  onConnect,
+}: {
+  chains: SpectatorChainType[];
+  spectator: ReturnType<typeof useMiningChallengeSpectator>;
+  onChainChange: (chainId: number) => void;
+  onConnect: () => void;
+}) => {
+  const { stats, players, activity } = spectator;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      {/* Header */}
+      <div className="bg-slate-800 border-b-2 border-slate-700">
+        <div className="max-w-7xl mx-auto px-6 py-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-white">Mining Challenge</h1>
+              <p className="text-slate-400 mt-1">Spectator Mode - public data only</p>
+            </div>
+            <div className="flex items-center gap-3">
+              {chains.length > 1 && (
+                <select
+                  value={spectator.chainId ?? ""}
+                  onChange={(e) => onChainChange(Number(e.target.value))}
+                  className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+                >
+                  {chains.map((chain) => (
+                    <option key={chain.chainId} value={chain.chainId}>
+                      {chain.chainName}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+                onClick={onConnect}
+              >
+                Connect Wallet
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        {spectator.message && (
+          <div className="p-4 rounded-lg border-2 bg-red-900 border-red-700 text-red-200">
+            {spectator.message}
+          </div>
+        )}
+
+        {!spectator.isAvailable ? (
+          <div className="bg-slate-800 border-2 border-slate-700 rounded-lg p-8 text-center">
+            <p className="text-slate-300 mb-4">
+              No public RPC endpoint is configured for a deployed Mining Challenge. Connect a
+              wallet to play.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Call to action: everything private needs a signer */}
+            <div className="bg-blue-900 border-2 border-blue-700 rounded-lg p-6 flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold">Join the challenge</h2>
+                <p className="text-blue-200 mt-1">
+                  Connect a wallet to mine, decrypt your encrypted total and calculate your rank.
+                </p>
+              </div>
+              <button
+                className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+                onClick={onConnect}
+              >
+                Connect to Mine
+              </button>
+            </div>
+
+            {/* Public stats */}
+            <div className="bg-slate-800 border-2 border-slate-700 rounded-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold">
+                  Public Stats{spectator.chainName ? ` (${spectator.chainName})` : ""}
+                </h2>
+                <button
+                  className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+                  disabled={spectator.isRefreshing}
+                  onClick={spectator.refresh}
+                >
+                  {spectator.isRefreshing ? "Loading..." : "Refresh"}
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard label="Season" value={stats ? `#${stats.currentSeason}` : "-"} />
+                <StatCard label="Players" value={stats ? String(stats.playerCount) : "-"} />
+                <StatCard
+                  label="Mine Interval"
+                  value={stats ? `${stats.minMineInterval}s` : "-"}
+                />
+                <StatCard
+                  label="Mode"
+                  value={
+                    stats
+                      ? stats.isPaused
+                        ? "Paused"
+                        : stats.randomYieldMode
+                          ? "Random yield"
+                          : `Up to ${stats.maxMineAmount}`
+                      : "-"
+                  }
+                />
+              </div>
+              <div className="mt-4 text-sm text-slate-400 font-mono break-all">
+                Contract: {spectator.contractAddress}
+                {stats?.rewardToken && <> | Reward token: {stats.rewardToken}</>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Player directory */}
+              <div className="bg-slate-800 border-2 border-slate-700 rounded-lg p-6">
+                <h2 className="text-2xl font-bold mb-4">Players</h2>
+                {!players || players.length === 0 ? (
+                  <p className="text-slate-400">
+                    {players ? "Nobody has mined this season yet." : "Loading..."}
+                  </p>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto">
+                    {players.map((player) => (
+                      <div
+                        key={player.address}
+                        className="flex justify-between items-center py-2 border-b border-slate-700 last:border-b-0"
+                      >
+                        <span className="font-mono">{shortAddress(player.address)}</span>
+                        <span className="text-slate-400 text-sm">
+                          last mined {formatTimestamp(player.lastMineTime)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Recent activity */}
+              <div className="bg-slate-800 border-2 border-slate-700 rounded-lg p-6">
+                <h2 className="text-2xl font-bold mb-4">Recent Activity</h2>
+                {!activity || activity.length === 0 ? (
+                  <p className="text-slate-400">
+                    {activity ? "No mining in the recent blocks." : "Loading..."}
+                  </p>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto">
+                    {activity.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="flex justify-between items-center py-2 border-b border-slate-700 last:border-b-0"
+                      >
+                        <span>
+                          <span className="font-mono">{shortAddress(entry.player)}</span>{" "}
+                          <span className="text-slate-400">mined in season {entry.seasonId}</span>
+                        </span>
+                        <span className="text-slate-400 text-sm">
+                          {formatTimestamp(entry.timestamp)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatTimestamp = (seconds: number) =>
+  seconds ? new Date(seconds * 1000).toLocaleString() : "-";
+
+const StatCard = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-slate-700 border border-slate-600 rounded-lg p-4 text-center">
+    <div className="text-sm text-slate-400">{label}</div>
+    <div className="text-2xl font-bold mt-1">{value}</div>
+  </div>
+);
@@ -0,0 +1,87 @@
+"use client";
+
+import type { Eip6963ProviderDetail, Eip6963ProviderInfo } from "@/hooks/metamask/Eip6963Types";
+
+/**
+ * Lists every wallet announced through EIP-6963. Picking one switches the app to it,
+ * "Disconnect" forgets the current wallet.
+ */
+export const WalletPickerModal = ({
+  wallets,
+  walletInfo,
+  onSelect,
+  onDisconnect,
+  onClose,
+}: {
+  wallets: Eip6963ProviderDetail[];
+  walletInfo: Eip6963ProviderInfo | undefined;
+  onSelect: (rdns: string) => void;
+  onDisconnect: () => void;
+  onClose: () => void;
+}) => {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-sm bg-slate-800 border-2 border-slate-700 rounded-lg p-6 text-white shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Select a Wallet</h2>
+          <button
+            className="text-slate-400 hover:text-white text-xl leading-none"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {wallets.length === 0 ? (
+          <p className="text-slate-400 text-sm">
+            No wallet found. Install a browser wallet that supports EIP-6963 (MetaMask, Rabby,
+            Coinbase Wallet...) and reload the page.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {wallets.map((wallet) => {
+              const isCurrent = wallet.info.rdns === walletInfo?.rdns;
+              return (
+                <button
+                  key={wallet.info.uuid}
+                  className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+                    isCurrent
+                      ? "bg-blue-900 border border-blue-600"
+                      : "bg-slate-700 border border-slate-600 hover:bg-slate-600"
+                  }`}
+                  onClick={() => {
+                    onSelect(wallet.info.rdns);
+                    onClose();
+                  }}
+                >
+                  <img src={wallet.info.icon} alt="" className="w-8 h-8 rounded" />
+                  <span className="font-semibold">{wallet.info.name}</span>
+                  {isCurrent && <span className="ml-auto text-xs text-blue-300">Connected</span>}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {walletInfo && (
+          <button
+            className="w-full mt-4 px-4 py-2 bg-red-700 text-white font-semibold rounded-lg hover:bg-red-800 transition-colors"
+            onClick={() => {
+              onDisconnect();
+              onClose();
+            }}
+          >
+            Disconnect {walletInfo.name}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -10,6 +10,80 @@ function _timestampNow(): number {
   return Math.floor(Date.now() / 1000);
 }
 
+// Signature lifetime used when neither the caller nor the app config chooses one. A shorter
+// requested lifetime also replaces cached signatures that would outlive it (see loadOrSign).
+export const DEFAULT_SIGNATURE_DURATION_DAYS = 365;
+
+// Cached signatures this close to expiry are replaced by a fresh one instead of being reused
+export const SIGNATURE_RENEWAL_MARGIN_SECONDS = 10 * 60;
+
+// Storage key listing the signature keys saved for a user (storages cannot enumerate their keys)
+function _indexKey(userAddress: string): string {
+  return `${userAddress}:signatures`;
+}
+
+async function _readIndex(
+  storage: GenericStringStorage,
+  userAddress: string
+): Promise<string[]> {
+  try {
+    const value = await storage.getItem(_indexKey(userAddress));
+    const keys = value ? JSON.parse(value) : [];
+    return Array.isArray(keys) ? keys.filter((k) => typeof k === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+async function _writeIndex(
+  storage: GenericStringStorage,
+  userAddress: string,
+  keys: string[]
+) {
+  if (keys.length === 0) {
+    await storage.removeItem(_indexKey(userAddress));
+  } else {
+    await storage.setItem(_indexKey(userAddress), JSON.stringify(keys));
+  }
+}
+
+// Pending index updates per user: each read-modify-write waits for the previous one, so two
+// signatures saved (or revoked) concurrently cannot overwrite each other's index entry
+const _indexUpdates = new Map<string, Promise<void>>();
+
+function _updateIndex(
+  storage: GenericStringStorage,
+  userAddress: string,
+  update: (keys: string[]) => string[]
+): Promise<void> {
+  const indexKey = _indexKey(userAddress);
+  const previous = _indexUpdates.get(indexKey) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const keys = await _readIndex(storage, userAddress);
+    const updated = update(keys);
+    if (
+      updated.length !== keys.length ||
+      updated.some((key, i) => key !== keys[i])
+    ) {
+      await _writeIndex(storage, userAddress, updated);
+    }
+  });
+  // A failed update must not block the ones queued after it
+  const tail = next.catch(() => undefined);
+  _indexUpdates.set(indexKey, tail);
+  tail.then(() => {
+    if (_indexUpdates.get(indexKey) === tail) {
+      _indexUpdates.delete(indexKey);
+    }
+  });
+  return next;
+}
+
+export type StoredFhevmDecryptionSignature = {
+  key: string;
+  signature: FhevmDecryptionSignature;
+};
+
 class FhevmDecryptionSignatureStorageKey {
   #contractAddresses: `0x${string}`[];
   #userAddress: `0x${string}`;
@@ -123,6 +197,11 @@ export class FhevmDecryptionSignature {
     return this.#userAddress;
   }
 
+  /** Unix timestamp (seconds) after which the relayer rejects this signature */
+  public get expiresAt() {
+    return this.#startTimestamp + this.#durationDays * 24 * 60 * 60;
+  }
+
   static checkIs(s: unknown): s is FhevmDecryptionSignatureType {
     if (!s || typeof s !== "object") {
       return false;
@@ -204,10 +283,8 @@ export class FhevmDecryptionSignature {
     return new FhevmDecryptionSignature(data);
   }
 
-  isValid(): boolean {
-    return (
-      _timestampNow() < this.#startTimestamp + this.#durationDays * 24 * 60 * 60
-    );
+  isValid(marginSeconds: number = 0): boolean {
+    return _timestampNow() + marginSeconds < this.expiresAt;
   }
 
   async saveToGenericStringStorage(
@@ -225,6 +302,11 @@ export class FhevmDecryptionSignature {
         withPublicKey ? this.#publicKey : undefined
       );
       await storage.setItem(storageKey.key, value);
+
+      await _updateIndex(storage, this.#userAddress, (keys) =>
+        keys.includes(storageKey.key) ? keys : [...keys, storageKey.key]
+      );
+
       console.log(
         `signature saved! contracts=${this.#contractAddresses.length}`
       );
@@ -259,7 +341,8 @@ export class FhevmDecryptionSignature {
 
       try {
         const kps = FhevmDecryptionSignature.fromJSON(result);
-        if (!kps.isValid()) {
+        // Renew slightly early so a decryption never races the expiry
+        if (!kps.isValid(SIGNATURE_RENEWAL_MARGIN_SECONDS)) {
           return null;
         }
 
@@ -275,17 +358,58 @@ export class FhevmDecryptionSignature {
     }
   }
 
+  /**
+   * Lists the signatures saved for `userAddress`, skipping expired ones.
+   */
+  static async listFromGenericStringStorage(
+    storage: GenericStringStorage,
+    userAddress: string
+  ): Promise<StoredFhevmDecryptionSignature[]> {
+    const stored: StoredFhevmDecryptionSignature[] = [];
+    for (const key of await _readIndex(storage, userAddress)) {
+      try {
+        const value = await storage.getItem(key);
+        if (!value) {
+          continue;
+        }
+        const signature = FhevmDecryptionSignature.fromJSON(value);
+        if (signature.isValid()) {
+          stored.push({ key, signature });
+        }
+      } catch {
+        console.error(
+          `FhevmDecryptionSignature.listFromGenericStringStorage() skipped an unreadable signature! key=${key}`
+        );
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Deletes a saved signature, and with it the only copy of its decryption keypair.
+   */
+  static async revokeFromGenericStringStorage(
+    storage: GenericStringStorage,
+    userAddress: string,
+    key: string
+  ) {
+    await storage.removeItem(key);
+    await _updateIndex(storage, userAddress, (keys) =>
+      keys.filter((k) => k !== key)
+    );
+  }
+
   static async new(
     instance: FhevmInstance,
     contractAddresses: string[],
     publicKey: string,
     privateKey: string,
-    signer: ethers.Signer
+    signer: ethers.Signer,
+    durationDays: number = DEFAULT_SIGNATURE_DURATION_DAYS
   ): Promise<FhevmDecryptionSignature | null> {
     try {
       const userAddress = (await signer.getAddress()) as `0x${string}`;
       const startTimestamp = _timestampNow();
-      const durationDays = 365;
       const eip712 = instance.createEIP712(
         publicKey,
         contractAddresses,
@@ -317,7 +441,8 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     signer: ethers.Signer,
     storage: GenericStringStorage,
-    keyPair?: { publicKey: string; privateKey: string }
+    keyPair?: { publicKey: string; privateKey: string },
+    durationDays?: number
   ): Promise<FhevmDecryptionSignature | null> {
     const userAddress = (await signer.getAddress()) as `0x${string}`;
 
@@ -330,7 +455,9 @@ export class FhevmDecryptionSignature {
         keyPair?.publicKey
       );
 
-    if (cached) {
+    const requestedExpiresAt =
+      _timestampNow() + (durationDays ?? DEFAULT_SIGNATURE_DURATION_DAYS) * 24 * 60 * 60;
+    if (cached && cached.expiresAt <= requestedExpiresAt) {
       return cached;
     }
 
@@ -341,7 +468,8 @@ export class FhevmDecryptionSignature {
       contractAddresses,
       publicKey,
       privateKey,
-      signer
+      signer,
+      durationDays
     );
 
     if (!sig) {
@@ -0,0 +1,170 @@
+import { ethers } from "ethers";
+import { GenericStringClearableStorage } from "./GenericStringStorage";
+
+// Reserved key holding the PBKDF2 salt and a value used to check the passphrase
+const HEADER_KEY = "__encrypted-storage-header__";
+const CHECK_VALUE = "fhevm-encrypted-storage";
+const PBKDF2_ITERATIONS = 310_000;
+
+type EncryptedStorageHeader = {
+  salt: string;
+  check: string;
+};
+
+function _toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+async function _deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    _toBuffer(ethers.toUtf8Bytes(passphrase)),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: _toBuffer(salt), iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function _encrypt(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: _toBuffer(iv) },
+    key,
+    _toBuffer(ethers.toUtf8Bytes(plaintext))
+  );
+  return JSON.stringify({
+    iv: ethers.encodeBase64(iv),
+    data: ethers.encodeBase64(new Uint8Array(data)),
+  });
+}
+
+async function _decrypt(key: CryptoKey, ciphertext: string): Promise<string> {
+  const { iv, data } = JSON.parse(ciphertext);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: _toBuffer(ethers.decodeBase64(iv)) },
+    key,
+    _toBuffer(ethers.decodeBase64(data))
+  );
+  return ethers.toUtf8String(new Uint8Array(plaintext));
+}
+
+/**
+ * Wraps another storage and encrypts every value at rest with a key derived
+ * from a user passphrase (PBKDF2 / AES-GCM, WebCrypto).
+ *
+ * While locked, values stored on disk cannot be read. Writes made meanwhile
+ * are held in memory (and readable) until the next unlock encrypts and
+ * persists them, so a signature created while locked is not lost. The first
+ * unlock on an empty storage sets the passphrase; clear() removes it together
+ * with the stored values.
+ */
+export class GenericStringEncryptedStorage implements GenericStringClearableStorage {
+  #inner: GenericStringClearableStorage;
+  #key: CryptoKey | undefined;
+  // Values written while locked, persisted by the next unlock
+  #pending = new Map<string, string>();
+
+  constructor(inner: GenericStringClearableStorage) {
+    this.#inner = inner;
+  }
+
+  get isLocked(): boolean {
+    return this.#key === undefined;
+  }
+
+  /**
+   * Derives the key from `passphrase`. Resolves to false if the passphrase
+   * does not match the one the stored values were encrypted with.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const stored = await this.#inner.getItem(HEADER_KEY);
+
+    if (stored) {
+      const header: EncryptedStorageHeader = JSON.parse(stored);
+      const key = await _deriveKey(passphrase, ethers.decodeBase64(header.salt));
+      try {
+        if ((await _decrypt(key, header.check)) !== CHECK_VALUE) {
+          return false;
+        }
+      } catch {
+        return false;
+      }
+      this.#key = key;
+      await this.#flushPending();
+      return true;
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await _deriveKey(passphrase, salt);
+    const header: EncryptedStorageHeader = {
+      salt: ethers.encodeBase64(salt),
+      check: await _encrypt(key, CHECK_VALUE),
+    };
+    await this.#inner.setItem(HEADER_KEY, JSON.stringify(header));
+    this.#key = key;
+    await this.#flushPending();
+    return true;
+  }
+
+  async #flushPending() {
+    const cryptoKey = this.#key;
+    if (!cryptoKey) {
+      return;
+    }
+    for (const [key, value] of Array.from(this.#pending.entries())) {
+      await this.#inner.setItem(key, await _encrypt(cryptoKey, value));
+      this.#pending.delete(key);
+    }
+  }
+
+  lock() {
+    this.#key = undefined;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const pending = this.#pending.get(key);
+    if (pending !== undefined) {
+      return pending;
+    }
+    const cryptoKey = this.#key;
+    if (!cryptoKey) {
+      return null;
+    }
+    const value = await this.#inner.getItem(key);
+    if (!value) {
+      return null;
+    }
+    try {
+      return await _decrypt(cryptoKey, value);
+    } catch {
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const cryptoKey = this.#key;
+    if (!cryptoKey) {
+      this.#pending.set(key, value);
+      return;
+    }
+    await this.#inner.setItem(key, await _encrypt(cryptoKey, value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.#pending.delete(key);
+    await this.#inner.removeItem(key);
+  }
+
+  async clear(): Promise<void> {
+    this.lock();
+    this.#pending.clear();
+    await this.#inner.clear();
+  }
+}
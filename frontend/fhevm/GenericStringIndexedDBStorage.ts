@@ -0,0 +1,77 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { GenericStringClearableStorage } from "./GenericStringStorage";
+
+interface GenericStringDB extends DBSchema {
+  stringStore: {
+    key: string;
+    value: string;
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<GenericStringDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<GenericStringDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<GenericStringDB>("fhevm-strings", 1, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("stringStore")) {
+        db.createObjectStore("stringStore");
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+/**
+ * IndexedDB backed storage (same `idb` wrapper as the public key cache).
+ * Every key is prefixed with `namespace`; clear() only removes the keys of
+ * this namespace.
+ */
+export class GenericStringIndexedDBStorage implements GenericStringClearableStorage {
+  #prefix: string;
+
+  constructor(namespace: string) {
+    this.#prefix = `${namespace}:`;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await _getDB();
+    if (!db) {
+      return null;
+    }
+    return (await db.get("stringStore", this.#prefix + key)) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await _getDB();
+    if (!db) {
+      return;
+    }
+    await db.put("stringStore", value, this.#prefix + key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await _getDB();
+    if (!db) {
+      return;
+    }
+    await db.delete("stringStore", this.#prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    const db = await _getDB();
+    if (!db) {
+      return;
+    }
+    // Every key of the namespace sorts between the prefix and the prefix followed by the highest code unit
+    await db.delete(
+      "stringStore",
+      IDBKeyRange.bound(this.#prefix, `${this.#prefix}\uffff`)
+    );
+  }
+}
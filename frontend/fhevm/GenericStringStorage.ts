@@ -4,7 +4,15 @@ export interface GenericStringStorage {
   removeItem(key: string): void | Promise<void>;
 }
 
-export class GenericStringInMemoryStorage implements GenericStringStorage {
+/**
+ * A GenericStringStorage that can drop every value it holds, used to purge
+ * decryption signatures on disconnect or on user request.
+ */
+export interface GenericStringClearableStorage extends GenericStringStorage {
+  clear(): void | Promise<void>;
+}
+
+export class GenericStringInMemoryStorage implements GenericStringClearableStorage {
   #store = new Map<string, string>();
 
   getItem(key: string): string | Promise<string | null> | null {
@@ -16,5 +24,55 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   removeItem(key: string): void | Promise<void> {
     this.#store.delete(key);
   }
+  clear(): void | Promise<void> {
+    this.#store.clear();
+  }
 }
 
+/**
+ * window.localStorage backed storage. Every key is prefixed with `namespace`
+ * so several accounts (or apps) can share the same origin, and clear() only
+ * removes the keys of this namespace.
+ */
+export class GenericStringLocalStorage implements GenericStringClearableStorage {
+  #prefix: string;
+
+  constructor(namespace: string) {
+    this.#prefix = `${namespace}:`;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    if (typeof window === "undefined") {
+      return null;
+    }
+    return window.localStorage.getItem(this.#prefix + key);
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    if (typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.setItem(this.#prefix + key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    if (typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.removeItem(this.#prefix + key);
+  }
+  clear(): void | Promise<void> {
+    if (typeof window === "undefined") {
+      return;
+    }
+    // Collect first: removing while iterating shifts the indices
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; ++i) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(this.#prefix)) {
+        keys.push(key);
+      }
+    }
+    for (const key of keys) {
+      window.localStorage.removeItem(key);
+    }
+  }
+}
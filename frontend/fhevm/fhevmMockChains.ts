@@ -0,0 +1,67 @@
+/**
+ * Chains served by a local FHEVM mock node (Hardhat node with the FHEVM plugin, or any node
+ * answering `fhevm_relayer_metadata`), keyed by chain id, valued by JSON-RPC URL.
+ * Instances for these chains are created with @fhevm/mock-utils instead of the relayer SDK.
+ */
+export type FhevmMockChains = Readonly<Record<number, string>>;
+
+// Used when NEXT_PUBLIC_FHEVM_MOCK_CHAINS is not set: `npx hardhat node`
+export const DEFAULT_FHEVM_MOCK_CHAINS: FhevmMockChains = {
+  31337: "http://localhost:8545",
+};
+
+/**
+ * Validates a chain id -> RPC URL map. Invalid entries are dropped and reported in `errors`
+ * so a typo in the env or the dev settings never takes the whole app down.
+ */
+export function parseFhevmMockChains(value: unknown): {
+  mockChains: FhevmMockChains;
+  errors: string[];
+} {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { mockChains: {}, errors: ["Mock chains must be an object keyed by chain id."] };
+  }
+
+  const mockChains: Record<number, string> = {};
+  const errors: string[] = [];
+  for (const [key, rpcUrl] of Object.entries(value)) {
+    const chainId = Number(key);
+    if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+      errors.push(`"${key}" is not a valid chain id.`);
+      continue;
+    }
+    if (typeof rpcUrl !== "string" || !/^https?:\/\/[^\s]+$/.test(rpcUrl)) {
+      errors.push(`Chain ${chainId}: "${String(rpcUrl)}" is not an http(s) URL.`);
+      continue;
+    }
+    mockChains[chainId] = rpcUrl;
+  }
+  return { mockChains, errors };
+}
+
+/**
+ * Mock chains from NEXT_PUBLIC_FHEVM_MOCK_CHAINS, a JSON object such as
+ * `{"31337":"http://localhost:8545","1337":"http://localhost:9545"}`.
+ * Set it to `{}` to disable the mock path entirely.
+ */
+export function getEnvFhevmMockChains(): FhevmMockChains {
+  // Must stay a literal property access so Next.js inlines it in the client bundle
+  const raw = process.env.NEXT_PUBLIC_FHEVM_MOCK_CHAINS;
+  if (!raw) {
+    return DEFAULT_FHEVM_MOCK_CHAINS;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error("[fhevmMockChains] NEXT_PUBLIC_FHEVM_MOCK_CHAINS is not valid JSON, using defaults.");
+    return DEFAULT_FHEVM_MOCK_CHAINS;
+  }
+
+  const { mockChains, errors } = parseFhevmMockChains(parsed);
+  for (const error of errors) {
+    console.error(`[fhevmMockChains] NEXT_PUBLIC_FHEVM_MOCK_CHAINS: ${error}`);
+  }
+  return mockChains;
+}
@@ -0,0 +1,47 @@
+export class FhevmReactError extends Error {
+  code: string;
+  constructor(code: string, message?: string, options?: ErrorOptions) {
+    super(message, options);
+    this.code = code;
+    this.name = "FhevmReactError";
+  }
+}
+
+// Failures that may succeed on a later attempt: node starting, relayer or CDN unreachable
+const TRANSIENT_FHEVM_ERROR_CODES = new Set([
+  "WEB3_CLIENTVERSION_ERROR",
+  "FHEVM_RELAYER_METADATA_ERROR",
+  "FHEVM_SDK_LOAD_ERROR",
+  "FHEVM_SDK_INIT_ERROR",
+  "FHEVM_CREATE_INSTANCE_ERROR",
+]);
+
+// ethers v6 codes of provider failures that are not caused by the request itself
+const TRANSIENT_PROVIDER_ERROR_CODES = new Set(["NETWORK_ERROR", "TIMEOUT", "SERVER_ERROR"]);
+
+/**
+ * Code of an FHEVM error (FhevmReactError code, or the ethers/EIP-1193 code of a provider
+ * error), undefined when the error carries none.
+ */
+export function getFhevmErrorCode(e: unknown): string | undefined {
+  const code = (e as { code?: unknown } | undefined)?.code;
+  if (typeof code === "string") {
+    return code;
+  }
+  if (typeof code === "number") {
+    return String(code);
+  }
+  return undefined;
+}
+
+/**
+ * True when retrying the same instance creation may succeed. Configuration errors
+ * (unsupported chain, invalid config or metadata, mock chain mismatch) are not transient.
+ */
+export function isTransientFhevmError(e: unknown): boolean {
+  const code = getFhevmErrorCode(e);
+  if (e instanceof FhevmReactError) {
+    return code !== undefined && TRANSIENT_FHEVM_ERROR_CODES.has(code);
+  }
+  return code !== undefined && TRANSIENT_PROVIDER_ERROR_CODES.has(code);
+}
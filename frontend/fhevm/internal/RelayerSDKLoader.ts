@@ -70,6 +70,8 @@ export class RelayerSDKLoader {
 
       script.onerror = () => {
         console.log("[RelayerSDKLoader] script onerror... ");
+        // Drop the failed tag so a later load() inserts a fresh one instead of finding it
+        script.remove();
         reject(
           new Error(
             `RelayerSDKLoader: Failed to load Relayer SDK from ${SDK_CDN_URL}`
@@ -8,15 +8,10 @@ import type {
 import { isFhevmWindowType, RelayerSDKLoader } from "./RelayerSDKLoader";
 import { publicKeyStorageGet, publicKeyStorageSet } from "./PublicKeyStorage";
 import { FhevmInstance, FhevmInstanceConfig } from "../fhevmTypes";
+import { FhevmReactError } from "./FhevmReactError";
+import { FhevmChainConfigOverrides, getFhevmChainConfig } from "./fhevmChains";
 
-export class FhevmReactError extends Error {
-  code: string;
-  constructor(code: string, message?: string, options?: ErrorOptions) {
-    super(message, options);
-    this.code = code;
-    this.name = "FhevmReactError";
-  }
-}
+export { FhevmReactError };
 
 function throwFhevmError(
   code: string,
@@ -69,7 +64,7 @@ export class FhevmAbortError extends Error {
   }
 }
 
-type FhevmRelayerStatusType =
+export type FhevmRelayerStatusType =
   | "sdk-loading"
   | "sdk-loaded"
   | "sdk-initializing"
@@ -81,7 +76,11 @@ async function getChainId(
 ): Promise<number> {
   if (typeof providerOrUrl === "string") {
     const provider = new JsonRpcProvider(providerOrUrl);
-    return Number((await provider.getNetwork()).chainId);
+    try {
+      return Number((await provider.getNetwork()).chainId);
+    } finally {
+      provider.destroy();
+    }
   }
   const chainId = await providerOrUrl.request({ method: "eth_chainId" });
   return Number.parseInt(chainId as string, 16);
@@ -103,72 +102,76 @@ async function getWeb3Client(rpcUrl: string) {
   }
 }
 
-async function tryFetchFHEVMHardhatNodeRelayerMetadata(rpcUrl: string): Promise<
-  | {
-      ACLAddress: `0x${string}`;
-      InputVerifierAddress: `0x${string}`;
-      KMSVerifierAddress: `0x${string}`;
-      gatewayChainId?: number;
+export type FhevmRelayerMetadata = {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  gatewayChainId?: number;
+};
+
+/**
+ * Checks a `fhevm_relayer_metadata` response: three contract addresses and an optional
+ * integer gatewayChainId. Throws FHEVM_RELAYER_METADATA_INVALID naming the first bad field.
+ */
+function validateFhevmRelayerMetadata(
+  metadata: unknown,
+  rpcUrl: string
+): FhevmRelayerMetadata {
+  const invalid = (reason: string): never =>
+    throwFhevmError(
+      "FHEVM_RELAYER_METADATA_INVALID",
+      `The FHEVM node at ${rpcUrl} returned invalid fhevm_relayer_metadata: ${reason}.`
+    );
+
+  if (!metadata || typeof metadata !== "object") {
+    return invalid("not an object");
+  }
+  const record = metadata as Record<string, unknown>;
+  for (const field of ["ACLAddress", "InputVerifierAddress", "KMSVerifierAddress"]) {
+    if (!checkIsAddress(record[field])) {
+      invalid(`${field} is missing or not an address`);
     }
-  | undefined
-> {
-  const version = await getWeb3Client(rpcUrl);
+  }
+  const gatewayChainId = record.gatewayChainId;
   if (
-    typeof version !== "string" ||
-    !version.toLowerCase().includes("hardhat")
+    gatewayChainId !== undefined &&
+    !(typeof gatewayChainId === "number" && Number.isSafeInteger(gatewayChainId))
   ) {
-    // Not a Hardhat Node
-    return undefined;
+    invalid("gatewayChainId is not an integer");
   }
-  try {
-    const metadata = await getFHEVMRelayerMetadata(rpcUrl);
-    if (!metadata || typeof metadata !== "object") {
-      return undefined;
-    }
-    if (
-      !(
-        "ACLAddress" in metadata &&
-        typeof metadata.ACLAddress === "string" &&
-        metadata.ACLAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    if (
-      !(
-        "InputVerifierAddress" in metadata &&
-        typeof metadata.InputVerifierAddress === "string" &&
-        metadata.InputVerifierAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    if (
-      !(
-        "KMSVerifierAddress" in metadata &&
-        typeof metadata.KMSVerifierAddress === "string" &&
-        metadata.KMSVerifierAddress.startsWith("0x")
-      )
-    ) {
-      return undefined;
-    }
-    // Extract gatewayChainId from metadata if available
-    const gatewayChainId = 
-      "gatewayChainId" in metadata &&
-      typeof metadata.gatewayChainId === "number"
-        ? metadata.gatewayChainId
-        : undefined;
-    
-    return {
-      ACLAddress: metadata.ACLAddress as `0x${string}`,
-      InputVerifierAddress: metadata.InputVerifierAddress as `0x${string}`,
-      KMSVerifierAddress: metadata.KMSVerifierAddress as `0x${string}`,
-      gatewayChainId,
-    };
-  } catch {
-    // Not a FHEVM Hardhat Node
-    return undefined;
+
+  return {
+    ACLAddress: record.ACLAddress as `0x${string}`,
+    InputVerifierAddress: record.InputVerifierAddress as `0x${string}`,
+    KMSVerifierAddress: record.KMSVerifierAddress as `0x${string}`,
+    gatewayChainId: gatewayChainId as number | undefined,
+  };
+}
+
+/**
+ * Reads the FHEVM contracts of a mock chain's node (Hardhat node with the FHEVM plugin,
+ * Anvil or any other node serving `fhevm_relayer_metadata`).
+ * A chain configured as mock never falls back to the relayer SDK: an unreachable node,
+ * a node on another chain or a node without FHEVM support is reported as such.
+ */
+async function fetchFhevmMockNodeMetadata(
+  rpcUrl: string,
+  chainId: number
+): Promise<FhevmRelayerMetadata> {
+  // Throws WEB3_CLIENTVERSION_ERROR when unreachable
+  await getWeb3Client(rpcUrl);
+
+  const nodeChainId = await getChainId(rpcUrl);
+  if (nodeChainId !== chainId) {
+    throwFhevmError(
+      "FHEVM_MOCK_CHAIN_MISMATCH",
+      `The mock chain ${chainId} is configured with ${rpcUrl}, but that node runs chain ${nodeChainId}. Check the mock chain settings.`
+    );
   }
+
+  // Throws FHEVM_RELAYER_METADATA_ERROR when the node has no FHEVM support
+  const metadata = await getFHEVMRelayerMetadata(rpcUrl);
+  return validateFhevmRelayerMetadata(metadata, rpcUrl);
 }
 
 async function getFHEVMRelayerMetadata(rpcUrl: string) {
@@ -179,7 +182,7 @@ async function getFHEVMRelayerMetadata(rpcUrl: string) {
   } catch (e) {
     throwFhevmError(
       "FHEVM_RELAYER_METADATA_ERROR",
-      `The URL ${rpcUrl} is not a FHEVM Hardhat node or is not reachable. Please check the endpoint.`,
+      `The node at ${rpcUrl} does not serve fhevm_relayer_metadata. Is it running with FHEVM support?`,
       e
     );
   } finally {
@@ -189,22 +192,20 @@ async function getFHEVMRelayerMetadata(rpcUrl: string) {
 
 type MockResolveResult = { isMock: true; chainId: number; rpcUrl: string };
 type GenericResolveResult = { isMock: false; chainId: number; rpcUrl?: string };
-type ResolveResult = MockResolveResult | GenericResolveResult;
+export type FhevmResolveResult = MockResolveResult | GenericResolveResult;
 
 async function resolve(
   providerOrUrl: Eip1193Provider | string,
-  mockChains?: Record<number, string>
-): Promise<ResolveResult> {
+  mockChains?: Readonly<Record<number, string>>
+): Promise<FhevmResolveResult> {
   // Resolve chainId
   const chainId = await getChainId(providerOrUrl);
 
   // Resolve rpc url
   let rpcUrl = typeof providerOrUrl === "string" ? providerOrUrl : undefined;
 
-  const _mockChains: Record<number, string> = {
-    31337: "http://localhost:8545",
-    ...(mockChains ?? {}),
-  };
+  // Only the configured chains (see fhevmMockChains.ts) use the mock path
+  const _mockChains: Readonly<Record<number, string>> = mockChains ?? {};
 
   // Help Typescript solver here:
   if (Object.hasOwn(_mockChains, chainId)) {
@@ -220,9 +221,13 @@ async function resolve(
 
 export const createFhevmInstance = async (parameters: {
   provider: Eip1193Provider | string;
-  mockChains?: Record<number, string>;
+  mockChains?: Readonly<Record<number, string>>;
+  // Per-chain FHEVM config overrides, see getFhevmChainConfig()
+  chainConfigs?: FhevmChainConfigOverrides;
   signal: AbortSignal;
   onStatusChange?: (status: FhevmRelayerStatusType) => void;
+  // Called once the chain is known to be served by a mock node or by the relayer
+  onResolve?: (resolved: FhevmResolveResult) => void;
 }): Promise<FhevmInstance> => {
   const throwIfAborted = () => {
     if (signal.aborted) throw new FhevmAbortError();
@@ -235,49 +240,61 @@ export const createFhevmInstance = async (parameters: {
   const {
     signal,
     onStatusChange,
+    onResolve,
     provider: providerOrUrl,
     mockChains,
+    chainConfigs,
   } = parameters;
 
   // Resolve chainId
-  const { isMock, rpcUrl, chainId } = await resolve(providerOrUrl, mockChains);
+  const resolved = await resolve(providerOrUrl, mockChains);
+  const { isMock, rpcUrl, chainId } = resolved;
+  throwIfAborted();
+  onResolve?.(resolved);
 
   if (isMock) {
-    // Throws an error if cannot connect or url does not refer to a Web3 client
-    const fhevmRelayerMetadata =
-      await tryFetchFHEVMHardhatNodeRelayerMetadata(rpcUrl);
-
-    if (fhevmRelayerMetadata) {
-      // fhevmRelayerMetadata is defined, which means rpcUrl refers to a FHEVM Hardhat Node
-      notify("creating");
-
-      //////////////////////////////////////////////////////////////////////////
-      // 
-      // WARNING!!
-      // ALWAY USE DYNAMIC IMPORT TO AVOID INCLUDING THE ENTIRE FHEVM MOCK LIB 
-      // IN THE FINAL PRODUCTION BUNDLE!!
-      // 
-      //////////////////////////////////////////////////////////////////////////
-      const fhevmMock = await import("./mock/fhevmMock");
-      const mockInstance = await fhevmMock.fhevmMockCreateInstance({
-        rpcUrl,
-        chainId,
-        metadata: fhevmRelayerMetadata,
-      });
-
-      throwIfAborted();
-
-      return mockInstance;
-    }
+    // Throws an error if the node is unreachable, on another chain or without FHEVM support
+    const fhevmRelayerMetadata = await fetchFhevmMockNodeMetadata(rpcUrl, chainId);
+    throwIfAborted();
+
+    notify("creating");
+
+    //////////////////////////////////////////////////////////////////////////
+    // 
+    // WARNING!!
+    // ALWAY USE DYNAMIC IMPORT TO AVOID INCLUDING THE ENTIRE FHEVM MOCK LIB 
+    // IN THE FINAL PRODUCTION BUNDLE!!
+    // 
+    //////////////////////////////////////////////////////////////////////////
+    const fhevmMock = await import("./mock/fhevmMock");
+    const mockInstance = await fhevmMock.fhevmMockCreateInstance({
+      rpcUrl,
+      chainId,
+      metadata: fhevmRelayerMetadata,
+    });
+
+    throwIfAborted();
+
+    return mockInstance;
   }
 
   throwIfAborted();
 
+  // Fail before downloading the SDK when the chain has no FHEVM deployment
+  const chainConfig = getFhevmChainConfig(chainId, chainConfigs);
+
   if (!isFhevmWindowType(window, console.log)) {
     notify("sdk-loading");
 
-    // throws an error if failed
-    await fhevmLoadSDK();
+    try {
+      await fhevmLoadSDK();
+    } catch (e) {
+      throwFhevmError(
+        "FHEVM_SDK_LOAD_ERROR",
+        "Failed to load the FHEVM Relayer SDK. Check your connection.",
+        e
+      );
+    }
     throwIfAborted();
 
     notify("sdk-loaded");
@@ -288,8 +305,15 @@ export const createFhevmInstance = async (parameters: {
   if (!isFhevmInitialized()) {
     notify("sdk-initializing");
 
-    // throws an error if failed
-    await fhevmInitSDK();
+    try {
+      await fhevmInitSDK();
+    } catch (e) {
+      throwFhevmError(
+        "FHEVM_SDK_INIT_ERROR",
+        "Failed to initialize the FHEVM Relayer SDK.",
+        e
+      );
+    }
     throwIfAborted();
 
     notify("sdk-initialized");
@@ -297,7 +321,7 @@ export const createFhevmInstance = async (parameters: {
 
   const relayerSDK = (window as unknown as FhevmWindowType).relayerSDK;
 
-  const aclAddress = relayerSDK.SepoliaConfig.aclContractAddress;
+  const aclAddress = chainConfig.aclContractAddress;
   if (!checkIsAddress(aclAddress)) {
     throw new Error(`Invalid address: ${aclAddress}`);
   }
@@ -306,7 +330,7 @@ export const createFhevmInstance = async (parameters: {
   throwIfAborted();
 
   const config: FhevmInstanceConfig = {
-    ...relayerSDK.SepoliaConfig,
+    ...chainConfig,
     network: providerOrUrl,
     publicKey: pub.publicKey,
     publicParams: pub.publicParams,
@@ -315,7 +339,16 @@ export const createFhevmInstance = async (parameters: {
   // notify that state === "creating"
   notify("creating");
 
-  const instance = await relayerSDK.createInstance(config);
+  let instance: FhevmInstance;
+  try {
+    instance = await relayerSDK.createInstance(config);
+  } catch (e) {
+    throwFhevmError(
+      "FHEVM_CREATE_INSTANCE_ERROR",
+      `Failed to create the FHEVM instance. The relayer at ${chainConfig.relayerUrl} may be unreachable.`,
+      e
+    );
+  }
 
   // Save the key even if aborted
   await publicKeyStorageSet(
@@ -0,0 +1,136 @@
+import { isAddress } from "ethers";
+import { FhevmReactError } from "./FhevmReactError";
+
+/**
+ * Everything the relayer SDK needs to talk to an FHEVM host chain besides the provider:
+ * host chain contracts (ACL, KMS verifier, input verifier), gateway chain contracts
+ * and the relayer.
+ */
+export type FhevmChainConfig = {
+  chainId: number;
+  aclContractAddress: `0x${string}`;
+  kmsContractAddress: `0x${string}`;
+  inputVerifierContractAddress: `0x${string}`;
+  verifyingContractAddressDecryption: `0x${string}`;
+  verifyingContractAddressInputVerification: `0x${string}`;
+  gatewayChainId: number;
+  relayerUrl: string;
+};
+
+// Overrides complete a built-in chain field by field; a new chain must set every field
+export type FhevmChainConfigOverrides = Readonly<
+  Record<number, Partial<Omit<FhevmChainConfig, "chainId">>>
+>;
+
+/**
+ * Built-in FHEVM networks. Values match the relayer SDK pinned in SDK_CDN_URL
+ * (its SepoliaConfig); update both together.
+ */
+export const FHEVM_CHAIN_CONFIGS: Readonly<Record<number, FhevmChainConfig>> = {
+  11155111: {
+    chainId: 11155111,
+    aclContractAddress: "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D",
+    kmsContractAddress: "0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A",
+    inputVerifierContractAddress: "0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0",
+    verifyingContractAddressDecryption: "0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478",
+    verifyingContractAddressInputVerification: "0x483b9dE06E4E4C7D35CCf5837A1668487406D955",
+    gatewayChainId: 10901,
+    relayerUrl: "https://relayer.testnet.zama.org",
+  },
+};
+
+const ADDRESS_FIELDS = [
+  "aclContractAddress",
+  "kmsContractAddress",
+  "inputVerifierContractAddress",
+  "verifyingContractAddressDecryption",
+  "verifyingContractAddressInputVerification",
+] as const;
+
+/**
+ * Reads NEXT_PUBLIC_FHEVM_CHAINS, a JSON object keyed by chain id, e.g.
+ * `{"11155111":{"relayerUrl":"https://my-relayer.example"}}`.
+ */
+function _envChainConfigs(): FhevmChainConfigOverrides {
+  // Must stay a literal property access so Next.js inlines it in the client bundle
+  const raw = process.env.NEXT_PUBLIC_FHEVM_CHAINS;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("not a JSON object");
+    }
+    return parsed as FhevmChainConfigOverrides;
+  } catch (e) {
+    throw new FhevmReactError(
+      "FHEVM_CHAIN_CONFIG_INVALID",
+      `NEXT_PUBLIC_FHEVM_CHAINS is not a valid JSON object keyed by chain id.`,
+      { cause: e }
+    );
+  }
+}
+
+function _validate(config: Partial<FhevmChainConfig>, chainId: number): FhevmChainConfig {
+  for (const field of ADDRESS_FIELDS) {
+    const value = config[field];
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new FhevmReactError(
+        "FHEVM_CHAIN_CONFIG_INVALID",
+        `FHEVM config of chain ${chainId}: ${field} is missing or not an address.`
+      );
+    }
+  }
+  if (typeof config.gatewayChainId !== "number" || !Number.isInteger(config.gatewayChainId)) {
+    throw new FhevmReactError(
+      "FHEVM_CHAIN_CONFIG_INVALID",
+      `FHEVM config of chain ${chainId}: gatewayChainId is missing or not an integer.`
+    );
+  }
+  if (typeof config.relayerUrl !== "string" || !config.relayerUrl) {
+    throw new FhevmReactError(
+      "FHEVM_CHAIN_CONFIG_INVALID",
+      `FHEVM config of chain ${chainId}: relayerUrl is missing.`
+    );
+  }
+  return { ...(config as FhevmChainConfig), chainId };
+}
+
+/**
+ * Ids of every chain with an FHEVM config: built-ins, env and app overrides.
+ */
+export function getFhevmChainIds(overrides?: FhevmChainConfigOverrides): number[] {
+  const ids = new Set<number>([
+    ...Object.keys(FHEVM_CHAIN_CONFIGS).map(Number),
+    ...Object.keys(_envChainConfigs()).map(Number),
+    ...Object.keys(overrides ?? {}).map(Number),
+  ]);
+  return Array.from(ids).sort((a, b) => a - b);
+}
+
+/**
+ * Resolves the FHEVM config of `chainId`: built-in entry, then NEXT_PUBLIC_FHEVM_CHAINS,
+ * then the app's `overrides`, later sources winning field by field.
+ *
+ * Throws FhevmReactError `FHEVM_UNSUPPORTED_CHAIN` when no source knows the chain and
+ * `FHEVM_CHAIN_CONFIG_INVALID` when the merged entry is incomplete.
+ */
+export function getFhevmChainConfig(
+  chainId: number,
+  overrides?: FhevmChainConfigOverrides
+): FhevmChainConfig {
+  const builtIn = FHEVM_CHAIN_CONFIGS[chainId];
+  const fromEnv = _envChainConfigs()[chainId];
+  const fromApp = overrides?.[chainId];
+
+  if (!builtIn && !fromEnv && !fromApp) {
+    const supported = getFhevmChainIds(overrides).join(", ");
+    throw new FhevmReactError(
+      "FHEVM_UNSUPPORTED_CHAIN",
+      `Chain ${chainId} is not a supported FHEVM network (supported: ${supported}). Switch network or add its FHEVM config.`
+    );
+  }
+
+  return _validate({ ...builtIn, ...fromEnv, ...fromApp }, chainId);
+}
@@ -0,0 +1,167 @@
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+
+import type { FhevmInstance, HandleContractPair } from "./fhevmTypes";
+import { GenericStringStorage } from "./GenericStringStorage";
+import { FhevmClearValue, userDecryptHandles } from "./userDecryptHandles";
+
+export type { FhevmClearValue };
+
+function _handleKey(handle: string | Uint8Array): string {
+  return (typeof handle === "string" ? handle : ethers.hexlify(handle)).toLowerCase();
+}
+
+/**
+ * Batch user decryption with a per-handle cache.
+ *
+ * `decrypt()` deduplicates the requested handles, skips `ZeroHash` (never
+ * initialised, nothing to decrypt) and handles already in the cache, then
+ * decrypts the rest with userDecryptHandles().
+ *
+ * The cache is dropped and a running decryption abandoned when the chain or the
+ * signer changes, since decrypted values are only meaningful for the account
+ * that requested them.
+ */
+export function useDecryptHandles(parameters: {
+  instance: FhevmInstance | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  chainId: number | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  fhevmDecryptionSignatureDurationDays?: number;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<
+    (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
+  >;
+}): {
+  clearValues: Readonly<Record<string, FhevmClearValue>>;
+  getClearValue: (handle: string | undefined) => FhevmClearValue | undefined;
+  decrypt: (
+    pairs: readonly HandleContractPair[]
+  ) => Promise<Record<string, FhevmClearValue> | undefined>;
+  isDecrypting: boolean;
+  error: Error | undefined;
+} {
+  const {
+    instance,
+    ethersSigner,
+    chainId,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    sameChain,
+    sameSigner,
+  } = parameters;
+
+  const [clearValues, setClearValues] = useState<Record<string, FhevmClearValue>>({});
+  const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
+  const [error, setError] = useState<Error | undefined>(undefined);
+
+  const clearValuesRef = useRef<Record<string, FhevmClearValue>>(clearValues);
+  const isDecryptingRef = useRef<boolean>(false);
+  const abortControllerRef = useRef<AbortController | undefined>(undefined);
+
+  useEffect(() => {
+    clearValuesRef.current = {};
+    setClearValues({});
+    setError(undefined);
+    return () => abortControllerRef.current?.abort();
+  }, [chainId, ethersSigner]);
+
+  const getClearValue = useCallback(
+    (handle: string | undefined) =>
+      handle === undefined ? undefined : clearValues[_handleKey(handle)],
+    [clearValues]
+  );
+
+  /**
+   * Resolves to the clear values of every requested (non-zero) handle, keyed
+   * by lowercased handle, or to undefined if nothing could be decrypted
+   * (no instance/signer, another decryption in flight, signature refused or
+   * chain/signer changed meanwhile). Relayer failures reject.
+   */
+  const decrypt = useCallback(
+    async (pairs: readonly HandleContractPair[]) => {
+      if (!instance || !ethersSigner || isDecryptingRef.current) {
+        return undefined;
+      }
+
+      const requested = new Map<string, HandleContractPair>();
+      for (const pair of pairs) {
+        const key = _handleKey(pair.handle);
+        if (key !== ethers.ZeroHash && !requested.has(key)) {
+          requested.set(key, pair);
+        }
+      }
+
+      const missing = Array.from(requested.entries())
+        .filter(([key]) => clearValuesRef.current[key] === undefined)
+        .map(([key, pair]) => ({ handle: key, contractAddress: pair.contractAddress }));
+
+      const collect = () => {
+        const result: Record<string, FhevmClearValue> = {};
+        for (const key of requested.keys()) {
+          const value = clearValuesRef.current[key];
+          if (value !== undefined) {
+            result[key] = value;
+          }
+        }
+        return result;
+      };
+
+      if (missing.length === 0) {
+        return collect();
+      }
+
+      const thisEthersSigner = ethersSigner;
+      const isStale = () =>
+        !sameChain.current(chainId) || !sameSigner.current(thisEthersSigner);
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setError(undefined);
+
+      try {
+        const res = await userDecryptHandles({
+          instance,
+          signer: thisEthersSigner,
+          storage: fhevmDecryptionSignatureStorage,
+          pairs: missing,
+          durationDays: fhevmDecryptionSignatureDurationDays,
+          signal: controller.signal,
+        });
+
+        if (!res || isStale()) {
+          return undefined;
+        }
+
+        clearValuesRef.current = { ...clearValuesRef.current, ...res };
+        setClearValues(clearValuesRef.current);
+
+        return collect();
+      } catch (e) {
+        if (controller.signal.aborted) {
+          return undefined;
+        }
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    },
+    [
+      instance,
+      ethersSigner,
+      chainId,
+      fhevmDecryptionSignatureStorage,
+      fhevmDecryptionSignatureDurationDays,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  return { clearValues, getClearValue, decrypt, isDecrypting, error };
+}
@@ -1,7 +1,9 @@
 import { ethers } from "ethers";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { FhevmInstance } from "./fhevmTypes";
-import { createFhevmInstance } from "./internal/fhevm";
+import { createFhevmInstance, type FhevmRelayerStatusType } from "./internal/fhevm";
+import { getFhevmErrorCode, isTransientFhevmError } from "./internal/FhevmReactError";
+import type { FhevmChainConfigOverrides } from "./internal/fhevmChains";
 
 function _assert(condition: boolean, message?: string): asserts condition {
   if (!condition) {
@@ -13,36 +15,101 @@ function _assert(condition: boolean, message?: string): asserts condition {
 
 export type FhevmGoState = "idle" | "loading" | "ready" | "error";
 
+// "mock": local FHEVM node via @fhevm/mock-utils, "relayer": relayer SDK
+export type FhevmInstanceKind = "mock" | "relayer";
+
+// Step of the instance creation while status is "loading"
+export type FhevmProgressType = "resolving" | FhevmRelayerStatusType | "retry-waiting";
+
+export type FhevmRetryState = {
+  // 1-based number of the retry that is scheduled
+  attempt: number;
+  maxAttempts: number;
+  // Date.now() at which the retry starts
+  nextRetryAt: number;
+  // The transient error that triggered it
+  error: Error;
+};
+
+// Transient failures are retried after 1s, 2s, 4s, 8s, then reported as an error
+const FHEVM_MAX_RETRY_ATTEMPTS = 4;
+const FHEVM_RETRY_BASE_DELAY_MS = 1000;
+const FHEVM_RETRY_MAX_DELAY_MS = 15000;
+
 export function useFhevm(parameters: {
   provider: string | ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   enabled?: boolean;
-  initialMockChains?: Readonly<Record<number, string>>;  
+  // Chains served by a local mock node; changing them recreates the instance
+  initialMockChains?: Readonly<Record<number, string>>;
+  // App-level FHEVM network configs, merged over the built-in and NEXT_PUBLIC_FHEVM_CHAINS ones
+  chainConfigs?: FhevmChainConfigOverrides;
 }): {
   instance: FhevmInstance | undefined;
   refresh: () => void;
   error: Error | undefined;
   status: FhevmGoState;
+  progress: FhevmProgressType | undefined;
+  // Time spent creating the instance, retries included; ticks every second while loading
+  elapsedMs: number | undefined;
+  // FhevmReactError or provider code of `error`
+  errorCode: string | undefined;
+  // Set while waiting for an automatic retry
+  retry: FhevmRetryState | undefined;
+  // Time left before the pending retry starts; ticks every second with elapsedMs
+  retryInMs: number | undefined;
+  // Known as soon as the chain is resolved, before the instance is ready
+  instanceKind: FhevmInstanceKind | undefined;
+  // RPC URL of the mock node when instanceKind is "mock"
+  mockRpcUrl: string | undefined;
 } {
-  const { provider, chainId, initialMockChains, enabled = true } = parameters;
+  const { provider, chainId, initialMockChains, chainConfigs, enabled = true } = parameters;
 
   const [instance, _setInstance] = useState<FhevmInstance | undefined>(
     undefined
   );
   const [status, _setStatus] = useState<FhevmGoState>("idle");
   const [error, _setError] = useState<Error | undefined>(undefined);
+  const [instanceKind, _setInstanceKind] = useState<FhevmInstanceKind | undefined>(undefined);
+  const [mockRpcUrl, _setMockRpcUrl] = useState<string | undefined>(undefined);
+  const [progress, _setProgress] = useState<FhevmProgressType | undefined>(undefined);
+  const [startedAt, _setStartedAt] = useState<number | undefined>(undefined);
+  const [elapsedMs, _setElapsedMs] = useState<number | undefined>(undefined);
+  const [retry, _setRetry] = useState<FhevmRetryState | undefined>(undefined);
+  const [retryInMs, _setRetryInMs] = useState<number | undefined>(undefined);
+  const [_retryTick, _setRetryTick] = useState<number>(0);
   const [_isRunning, _setIsRunning] = useState<boolean>(enabled);
   const [_providerChanged, _setProviderChanged] = useState<number>(0);
   const _abortControllerRef = useRef<AbortController | null>(null);
+  const _retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const _retryAttemptRef = useRef<number>(0);
+  const _nextRetryAtRef = useRef<number | undefined>(undefined);
+  const _startedAtRef = useRef<number>(0);
   const _providerRef = useRef<string | ethers.Eip1193Provider | undefined>(
     provider
   );
   const _chainIdRef = useRef<number | undefined>(chainId);
-  const _mockChainsRef = useRef<Record<number, string> | undefined>(
+  const _mockChainsRef = useRef<Readonly<Record<number, string>> | undefined>(
     initialMockChains
   );
+  const _chainConfigsRef = useRef<FhevmChainConfigOverrides | undefined>(
+    chainConfigs
+  );
+
+  const _cancelRetry = useCallback(() => {
+    if (_retryTimerRef.current) {
+      clearTimeout(_retryTimerRef.current);
+      _retryTimerRef.current = null;
+    }
+    _retryAttemptRef.current = 0;
+    _nextRetryAtRef.current = undefined;
+    _setRetry(undefined);
+    _setRetryInMs(undefined);
+  }, []);
 
   const refresh = useCallback(() => {
+    _cancelRetry();
+
     if (_abortControllerRef.current) {
       _providerRef.current = undefined;
       _chainIdRef.current = undefined;
@@ -53,15 +120,22 @@ export function useFhevm(parameters: {
 
     _providerRef.current = provider;
     _chainIdRef.current = chainId;
+    _mockChainsRef.current = initialMockChains;
+    _chainConfigsRef.current = chainConfigs;
 
     _setInstance(undefined);
     _setError(undefined);
     _setStatus("idle");
+    _setInstanceKind(undefined);
+    _setMockRpcUrl(undefined);
+    _setProgress(undefined);
+    _setStartedAt(undefined);
+    _setElapsedMs(undefined);
 
     if (provider !== undefined) {
       _setProviderChanged((prev) => prev + 1);
     }
-  }, [provider, chainId]);
+  }, [provider, chainId, initialMockChains, chainConfigs, _cancelRetry]);
 
   useEffect(() => {
     refresh();
@@ -71,8 +145,31 @@ export function useFhevm(parameters: {
     _setIsRunning(enabled);
   }, [enabled]);
 
+  useEffect(() => {
+    if (status !== "loading" || startedAt === undefined) {
+      return;
+    }
+    const id = setInterval(() => {
+      const now = Date.now();
+      _setElapsedMs(now - startedAt);
+      const nextRetryAt = _nextRetryAtRef.current;
+      _setRetryInMs(nextRetryAt === undefined ? undefined : Math.max(0, nextRetryAt - now));
+    }, 1000);
+    return () => clearInterval(id);
+  }, [status, startedAt]);
+
+  // A pending retry must not fire after unmount
+  useEffect(() => {
+    return () => {
+      if (_retryTimerRef.current) {
+        clearTimeout(_retryTimerRef.current);
+      }
+    };
+  }, []);
+
   useEffect(() => {
     if (_isRunning === false) {
+      _cancelRetry();
       if (_abortControllerRef.current) {
         _abortControllerRef.current.abort();
         _abortControllerRef.current = null;
@@ -80,6 +177,9 @@ export function useFhevm(parameters: {
       _setInstance(undefined);
       _setError(undefined);
       _setStatus("idle");
+      _setInstanceKind(undefined);
+      _setMockRpcUrl(undefined);
+      _setProgress(undefined);
       return;
     }
 
@@ -102,17 +202,33 @@ export function useFhevm(parameters: {
 
       _setStatus("loading");
       _setError(undefined);
+      _setProgress("resolving");
+
+      // Retries keep the start time of the first attempt
+      if (_retryAttemptRef.current === 0) {
+        _startedAtRef.current = Date.now();
+        _setStartedAt(_startedAtRef.current);
+        _setElapsedMs(0);
+      }
 
       const thisSignal = _abortControllerRef.current.signal;
       const thisProvider = _providerRef.current;
       const thisRpcUrlsByChainId = _mockChainsRef.current;
+      const thisChainConfigs = _chainConfigsRef.current;
 
       createFhevmInstance({
         signal: thisSignal,
         provider: thisProvider,
         mockChains: thisRpcUrlsByChainId,
-        onStatusChange: (s) =>
-          console.log(`[useFhevm] createFhevmInstance status changed: ${s}`),
+        chainConfigs: thisChainConfigs,
+        onStatusChange: (s) => {
+          if (!thisSignal.aborted) _setProgress(s);
+        },
+        onResolve: (resolved) => {
+          if (thisSignal.aborted) return;
+          _setInstanceKind(resolved.isMock ? "mock" : "relayer");
+          _setMockRpcUrl(resolved.isMock ? resolved.rpcUrl : undefined);
+        },
       })
         .then((i) => {
           if (thisSignal.aborted) return;
@@ -122,9 +238,15 @@ export function useFhevm(parameters: {
             "thisProvider === _providerRef.current"
           );
 
+          _retryAttemptRef.current = 0;
+          _nextRetryAtRef.current = undefined;
+          _setRetry(undefined);
+          _setRetryInMs(undefined);
           _setInstance(i);
           _setError(undefined);
           _setStatus("ready");
+          _setProgress(undefined);
+          _setElapsedMs(Date.now() - _startedAtRef.current);
         })
         .catch((e) => {
           if (thisSignal.aborted) return;
@@ -134,13 +256,58 @@ export function useFhevm(parameters: {
             "thisProvider === _providerRef.current"
           );
 
+          const attempt = _retryAttemptRef.current + 1;
+          if (isTransientFhevmError(e) && attempt <= FHEVM_MAX_RETRY_ATTEMPTS) {
+            const delay = Math.min(
+              FHEVM_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+              FHEVM_RETRY_MAX_DELAY_MS
+            );
+
+            _retryAttemptRef.current = attempt;
+            _nextRetryAtRef.current = Date.now() + delay;
+            _setRetry({
+              attempt,
+              maxAttempts: FHEVM_MAX_RETRY_ATTEMPTS,
+              nextRetryAt: _nextRetryAtRef.current,
+              error: e,
+            });
+            _setRetryInMs(delay);
+            _setProgress("retry-waiting");
+            _retryTimerRef.current = setTimeout(() => {
+              _retryTimerRef.current = null;
+              _nextRetryAtRef.current = undefined;
+              _setRetryInMs(undefined);
+              if (thisSignal.aborted) return;
+              _setRetryTick((prev) => prev + 1);
+            }, delay);
+            return;
+          }
+
+          _retryAttemptRef.current = 0;
+          _nextRetryAtRef.current = undefined;
+          _setRetry(undefined);
+          _setRetryInMs(undefined);
           _setInstance(undefined);
           _setError(e);
           _setStatus("error");
+          _setProgress(undefined);
+          _setElapsedMs(Date.now() - _startedAtRef.current);
         });
     }
-  }, [_isRunning, _providerChanged]);
+  }, [_isRunning, _providerChanged, _retryTick, _cancelRetry]);
 
-  return { instance, refresh, error, status };
+  return {
+    instance,
+    refresh,
+    error,
+    status,
+    progress,
+    elapsedMs,
+    errorCode: getFhevmErrorCode(error),
+    retry,
+    retryInMs,
+    instanceKind,
+    mockRpcUrl,
+  };
 }
 
@@ -0,0 +1,62 @@
+import { ethers } from "ethers";
+
+import { FhevmDecryptionSignature } from "./FhevmDecryptionSignature";
+import type { FhevmInstance, HandleContractPair } from "./fhevmTypes";
+import { GenericStringStorage } from "./GenericStringStorage";
+
+export type FhevmClearValue = bigint | boolean | string;
+
+/**
+ * User decryption shared by the React hooks and MiningChallengeClient: one
+ * `FhevmDecryptionSignature` covering every contract involved (loaded from `storage` or
+ * signed), then a single `userDecrypt` call.
+ *
+ * Callers dedupe the pairs and drop `ZeroHash` handles beforehand. Resolves to the clear
+ * values keyed by lowercased handle, or to undefined when no signature could be obtained.
+ * `signal` is checked after signing and after decrypting; relayer failures reject.
+ */
+export async function userDecryptHandles(parameters: {
+  instance: FhevmInstance;
+  signer: ethers.Signer;
+  storage: GenericStringStorage;
+  pairs: HandleContractPair[];
+  durationDays?: number;
+  signal?: AbortSignal;
+}): Promise<Record<string, FhevmClearValue> | undefined> {
+  const { instance, signer, storage, pairs, durationDays, signal } = parameters;
+
+  const contractAddresses = Array.from(
+    new Set(pairs.map((pair) => ethers.getAddress(pair.contractAddress)))
+  ) as `0x${string}`[];
+
+  const sig = await FhevmDecryptionSignature.loadOrSign(
+    instance,
+    contractAddresses,
+    signer,
+    storage,
+    undefined,
+    durationDays
+  );
+  signal?.throwIfAborted();
+  if (!sig) {
+    return undefined;
+  }
+
+  const res = await instance.userDecrypt(
+    pairs,
+    sig.privateKey,
+    sig.publicKey,
+    sig.signature,
+    sig.contractAddresses,
+    sig.userAddress,
+    sig.startTimestamp,
+    sig.durationDays
+  );
+  signal?.throwIfAborted();
+
+  const result: Record<string, FhevmClearValue> = {};
+  for (const [handle, value] of Object.entries(res)) {
+    result[handle.toLowerCase()] = value;
+  }
+  return result;
+}
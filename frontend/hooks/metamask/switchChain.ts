@@ -0,0 +1,57 @@
+import type { Eip1193Provider } from "ethers";
+
+import type { MiningChallengeChainInfo } from "@/abi/MiningChallengeAddresses";
+
+// EIP-3085 error returned by wallet_switchEthereumChain when the wallet does not know the chain
+const UNRECOGNIZED_CHAIN_ERROR_CODE = 4902;
+
+function _isUnrecognizedChain(e: unknown): boolean {
+  const error = e as {
+    code?: unknown;
+    data?: { originalError?: { code?: unknown } };
+  };
+  // MetaMask mobile nests the code in data.originalError
+  return (
+    error?.code === UNRECOGNIZED_CHAIN_ERROR_CODE ||
+    error?.data?.originalError?.code === UNRECOGNIZED_CHAIN_ERROR_CODE
+  );
+}
+
+/**
+ * Asks the wallet to switch to `chain` (EIP-3326). Wallets that do not know the chain are
+ * asked to add it (EIP-3085) with the RPC, explorer and currency metadata of the address
+ * registry; adding a chain also switches to it.
+ *
+ * Rejects with the wallet error (e.g. code 4001 when the user declines).
+ */
+export async function switchOrAddChain(
+  provider: Eip1193Provider,
+  chain: MiningChallengeChainInfo & { chainId: number }
+): Promise<void> {
+  const chainIdHex = `0x${chain.chainId.toString(16)}`;
+
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: chainIdHex }],
+    });
+    return;
+  } catch (e) {
+    if (!_isUnrecognizedChain(e) || !chain.rpcUrl) {
+      throw e;
+    }
+  }
+
+  await provider.request({
+    method: "wallet_addEthereumChain",
+    params: [
+      {
+        chainId: chainIdHex,
+        chainName: chain.chainName ?? `Chain ${chain.chainId}`,
+        rpcUrls: [chain.rpcUrl],
+        blockExplorerUrls: chain.explorerUrl ? [chain.explorerUrl] : undefined,
+        nativeCurrency: chain.nativeCurrency ?? { name: "Ether", symbol: "ETH", decimals: 18 },
+      },
+    ],
+  });
+}
@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
 import { useMetaMask } from "./useMetaMaskProvider";
+import type { Eip6963ProviderDetail, Eip6963ProviderInfo } from "./Eip6963Types";
 import {
   createContext,
   ReactNode,
@@ -17,6 +18,11 @@ export interface UseMetaMaskEthersSignerState {
   isConnected: boolean;
   error: Error | undefined;
   connect: () => void;
+  wallets: Eip6963ProviderDetail[];
+  walletInfo: Eip6963ProviderInfo | undefined;
+  selectWallet: (rdns: string) => void;
+  disconnect: () => void;
+  disconnectCount: number;
   sameChain: RefObject<(chainId: number | undefined) => boolean>;
   sameSigner: RefObject<
     (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
@@ -29,7 +35,19 @@ export interface UseMetaMaskEthersSignerState {
 
 function useMetaMaskEthersSignerInternal(parameters: { initialMockChains?: Readonly<Record<number, string>> }): UseMetaMaskEthersSignerState {
   const { initialMockChains } = parameters;
-  const { provider, chainId, accounts, isConnected, connect, error } = useMetaMask();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    connect,
+    error,
+    wallets,
+    walletInfo,
+    selectWallet,
+    disconnect,
+    disconnectCount,
+  } = useMetaMask();
   const [ethersSigner, setEthersSigner] = useState<
     ethers.JsonRpcSigner | undefined
   >(undefined);
@@ -57,6 +75,8 @@ function useMetaMaskEthersSignerInternal(parameters: { initialMockChains?: Reado
     chainIdRef.current = chainId;
   }, [chainId]);
 
+  // Switching wallets always goes through provider === undefined (see useMetaMask), so every
+  // wallet gets its own BrowserProvider and signer and sameSigner() fails for the previous one
   useEffect(() => {
     if (
       !provider ||
@@ -102,6 +122,11 @@ function useMetaMaskEthersSignerInternal(parameters: { initialMockChains?: Reado
     accounts,
     isConnected,
     connect,
+    wallets,
+    walletInfo,
+    selectWallet,
+    disconnect,
+    disconnectCount,
     ethersBrowserProvider,
     ethersReadonlyProvider,
     ethersSigner,
@@ -4,11 +4,13 @@ import {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from "react";
 import { Eip1193Provider, ethers } from "ethers";
 import { useEip6963 } from "./useEip6963";
+import type { Eip6963ProviderDetail, Eip6963ProviderInfo } from "./Eip6963Types";
 
 interface ProviderConnectInfo {
   readonly chainId: string;
@@ -51,15 +53,64 @@ export interface UseMetaMaskState {
   isConnected: boolean;
   error: Error | undefined;
   connect: () => void;
+  // Every wallet announced through EIP-6963
+  wallets: Eip6963ProviderDetail[];
+  // The wallet `provider` belongs to, undefined when none is selected
+  walletInfo: Eip6963ProviderInfo | undefined;
+  selectWallet: (rdns: string) => void;
+  disconnect: () => void;
+  // Number of disconnect() calls, lets consumers tell a user disconnect from a wallet switch
+  disconnectCount: number;
+}
+
+// rdns of the last wallet picked by the user, "" after an explicit disconnect
+const SELECTED_WALLET_STORAGE_KEY = "mining-challenge.wallet.rdns";
+
+function _loadSelectedWallet(): string | null {
+  try {
+    return window.localStorage.getItem(SELECTED_WALLET_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function _saveSelectedWallet(rdns: string) {
+  try {
+    window.localStorage.setItem(SELECTED_WALLET_STORAGE_KEY, rdns);
+  } catch {
+    // Storage unavailable (private mode...), the choice only lasts for this page
+  }
+}
+
+/**
+ * The remembered wallet wins; without any remembered choice (first visit) fall back to
+ * MetaMask, and after an explicit disconnect select nothing until the user picks again.
+ */
+function _findWallet(
+  wallets: Eip6963ProviderDetail[],
+  selectedRdns: string | null
+): Eip6963ProviderDetail | undefined {
+  if (selectedRdns === null) {
+    return wallets.find((w) => w.info.name.toLowerCase() === "metamask");
+  }
+  if (selectedRdns === "") {
+    return undefined;
+  }
+  return wallets.find((w) => w.info.rdns === selectedRdns);
 }
 
 function useMetaMaskInternal(): UseMetaMaskState {
   const { error: eip6963Error, providers } = useEip6963();
+  // null until loaded from storage, see _findWallet()
+  const [selectedRdns, _setSelectedRdns] = useState<string | null | undefined>(
+    undefined
+  );
   const [_currentProvider, _setCurrentProvider] = useState<
     Eip1193ProviderWithEvent | undefined
   >(undefined);
   const [chainId, _setChainId] = useState<number | undefined>(undefined);
   const [accounts, _setAccounts] = useState<string[] | undefined>(undefined);
+  const [disconnectCount, _setDisconnectCount] = useState<number>(0);
 
   const connectListenerRef = useRef<ConnectListenerFn | undefined>(undefined);
   const disconnectListenerRef = useRef<DisconnectListenerFn | undefined>(
@@ -72,7 +123,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
     AccountsChangedListenerFn | undefined
   >(undefined);
 
-  const metaMaskProviderRef = useRef<Eip1193ProviderWithEvent | undefined>(
+  const walletProviderRef = useRef<Eip1193ProviderWithEvent | undefined>(
     undefined
   );
 
@@ -82,6 +133,16 @@ function useMetaMaskInternal(): UseMetaMaskState {
 
   const isConnected = hasProvider && hasAccounts && hasChain;
 
+  const wallet = useMemo(
+    () =>
+      selectedRdns === undefined ? undefined : _findWallet(providers, selectedRdns),
+    [providers, selectedRdns]
+  );
+
+  useEffect(() => {
+    _setSelectedRdns(_loadSelectedWallet());
+  }, []);
+
   const connect = useCallback(() => {
     if (!_currentProvider) {
       return;
@@ -96,16 +157,68 @@ function useMetaMaskInternal(): UseMetaMaskState {
     _currentProvider.request({ method: "eth_requestAccounts" });
   }, [_currentProvider, accounts]);
 
-  useEffect(() => {
-    let next: Eip1193ProviderWithEvent | undefined = undefined;
-    for (let i = 0; i < providers.length; ++i) {
-      if (providers[i].info.name.toLowerCase() === "metamask") {
-        next = providers[i].provider;
-        break;
+  /**
+   * Switches to the wallet announced with `rdns`, remembers it for the next visit and
+   * prompts it for accounts. The previous wallet's listeners are removed by the
+   * provider effect below.
+   */
+  const selectWallet = useCallback(
+    (rdns: string) => {
+      const next = providers.find((w) => w.info.rdns === rdns);
+      if (!next) {
+        return;
       }
-    }
 
-    const prev = metaMaskProviderRef.current;
+      _saveSelectedWallet(rdns);
+      _setSelectedRdns(rdns);
+
+      const run = async () => {
+        try {
+          const accountsArray: string[] = await next.provider.request({
+            method: "eth_requestAccounts",
+          });
+          // The accountsChanged listener may not be attached yet
+          if (next.provider === walletProviderRef.current) {
+            _setCurrentProvider(next.provider);
+            _setAccounts(accountsArray);
+          }
+        } catch (e) {
+          console.log(
+            `[useMetaMask] ${rdns} eth_requestAccounts failed: ${e instanceof Error ? e.message : String(e)}`
+          );
+        }
+      };
+
+      run();
+    },
+    [providers]
+  );
+
+  /**
+   * Forgets the selected wallet. Wallets supporting `wallet_revokePermissions` also drop
+   * the site's account permission so the next connect prompts again.
+   */
+  const disconnect = useCallback(() => {
+    const prev = walletProviderRef.current;
+
+    _saveSelectedWallet("");
+    _setSelectedRdns("");
+    _setDisconnectCount((prev) => prev + 1);
+
+    prev
+      ?.request({
+        method: "wallet_revokePermissions",
+        params: [{ eth_accounts: {} }],
+      })
+      .catch(() => {
+        // Not supported by every wallet, forgetting the selection is enough
+      });
+  }, []);
+
+  useEffect(() => {
+    const next: Eip1193ProviderWithEvent | undefined = wallet?.provider;
+
+    const prev = walletProviderRef.current;
     if (prev === next) {
       return;
     }
@@ -143,7 +256,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
     _setChainId(undefined);
     _setAccounts(undefined);
 
-    metaMaskProviderRef.current = next;
+    walletProviderRef.current = next;
 
     let nextConnectListener: ConnectListenerFn | undefined = undefined;
     let nextDisconnectListener: DisconnectListenerFn | undefined = undefined;
@@ -160,7 +273,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
     if (next) {
       // Connect
       nextConnectListener = (connectInfo: ProviderConnectInfo) => {
-        if (next !== metaMaskProviderRef.current) {
+        if (next !== walletProviderRef.current) {
           return;
         }
         console.log(
@@ -174,7 +287,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
 
       // Disconnect
       nextDisconnectListener = (error: ProviderRpcError) => {
-        if (next !== metaMaskProviderRef.current) {
+        if (next !== walletProviderRef.current) {
           return;
         }
         console.log(`[useMetaMask] on('disconnect') error code=${error.code}`);
@@ -187,7 +300,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
 
       // ChainChanged
       nextChainChangedListener = (chainId: string) => {
-        if (next !== metaMaskProviderRef.current) {
+        if (next !== walletProviderRef.current) {
           return;
         }
         console.log(`[useMetaMask] on('chainChanged') chainId=${chainId}`);
@@ -199,7 +312,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
 
       // AccountsChanged
       nextAccountsChangedListener = (accounts: string[]) => {
-        if (next !== metaMaskProviderRef.current) {
+        if (next !== walletProviderRef.current) {
           return;
         }
         console.log(
@@ -224,7 +337,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
       }
 
       const updateChainId = async () => {
-        if (next !== metaMaskProviderRef.current) {
+        if (next !== walletProviderRef.current) {
           return;
         }
 
@@ -251,12 +364,12 @@ function useMetaMaskInternal(): UseMetaMaskState {
 
       updateChainId();
     }
-  }, [providers]);
+  }, [wallet]);
 
   // Unmount
   useEffect(() => {
     return () => {
-      const current = metaMaskProviderRef.current;
+      const current = walletProviderRef.current;
 
       if (current) {
         const chainChangedListener = chainChangedListenerRef.current;
@@ -283,7 +396,7 @@ function useMetaMaskInternal(): UseMetaMaskState {
       }
 
       chainChangedListenerRef.current = undefined;
-      metaMaskProviderRef.current = undefined;
+      walletProviderRef.current = undefined;
     };
   }, []);
 
@@ -294,6 +407,11 @@ function useMetaMaskInternal(): UseMetaMaskState {
     isConnected,
     error: eip6963Error,
     connect,
+    wallets: providers,
+    walletInfo: _currentProvider ? wallet?.info : undefined,
+    selectWallet,
+    disconnect,
+    disconnectCount,
   };
 }
 
@@ -306,8 +424,19 @@ const MetaMaskContext = createContext<UseMetaMaskState | undefined>(undefined);
 export const MetaMaskProvider: React.FC<MetaMaskProviderProps> = ({
   children,
 }) => {
-  const { provider, chainId, accounts, isConnected, error, connect } =
-    useMetaMaskInternal();
+  const {
+    provider,
+    chainId,
+    accounts,
+    isConnected,
+    error,
+    connect,
+    wallets,
+    walletInfo,
+    selectWallet,
+    disconnect,
+    disconnectCount,
+  } = useMetaMaskInternal();
   return (
     <MetaMaskContext.Provider
       value={{
@@ -317,6 +446,11 @@ export const MetaMaskProvider: React.FC<MetaMaskProviderProps> = ({
         isConnected,
         error,
         connect,
+        wallets,
+        walletInfo,
+        selectWallet,
+        disconnect,
+        disconnectCount,
       }}
     >
       {children}
@@ -0,0 +1,223 @@
+import { ethers } from "ethers";
+
+import { FhevmReactError } from "@/fhevm/internal/fhevm";
+import { MiningChallengeABI } from "@/abi/MiningChallengeABI";
+
+/**
+ * Every failure surfaced by the MiningChallenge hooks, decoded from contract custom errors,
+ * wallet errors, relayer failures and FHEVM instance errors. `message` is meant for the
+ * status banner and tells the player what to do next.
+ */
+export type MiningChallengeErrorType =
+  | { type: "PlayerNotFound"; seasonId: number; player: string; message: string }
+  | { type: "MineCooldown"; nextAllowed: number; message: string }
+  | { type: "IndexOutOfBounds"; index: number; length: number; message: string }
+  | { type: "ContractPaused"; message: string }
+  | { type: "MissingRole"; role: string; account: string; message: string }
+  // Any other MiningChallenge custom error
+  | { type: "ContractError"; name: string; args: unknown[]; message: string }
+  // Revert without decodable data (other contract, out of gas, ...)
+  | { type: "TransactionReverted"; message: string }
+  | { type: "UserRejected"; message: string }
+  | { type: "InsufficientFunds"; message: string }
+  | { type: "NetworkError"; message: string }
+  | { type: "RelayerError"; message: string }
+  | { type: "FhevmError"; code: string; message: string }
+  | { type: "Unknown"; message: string };
+
+const miningChallengeInterface = new ethers.Interface(MiningChallengeABI.abi);
+
+// Player-facing messages of the custom errors without a dedicated union member
+const CONTRACT_ERROR_MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner can do this.",
+  NotPendingOwner: "Only the nominated owner can accept the ownership.",
+  ContractNotPaused: "The challenge is not paused.",
+  SeasonNotFound: "This season does not exist. Pick another season.",
+  SeasonStillRunning: "This season is still running. Start a new season first.",
+  AmountNotPositive: "The amount must be greater than zero.",
+  InvalidYieldRange: "The minimum yield must not exceed the maximum yield.",
+  MultiplierTooLarge: "This tool multiplier is above the allowed maximum.",
+  TeamSizeNotPositive: "The team size must be at least one.",
+  RewardEscrowNotEmpty: "Pay out or withdraw the escrowed rewards before changing the token.",
+  RandomYieldModeOn: "Random yield mode is on: mine for a random yield instead.",
+  RandomYieldModeOff: "Random yield mode is off: choose an amount to mine.",
+  NoActiveRankJob: "No rank calculation is in progress. Start a new one.",
+  InvalidPageSize: "Invalid rank page size.",
+  RankJobNotComplete: "The rank calculation has unprocessed pages. Resume it to finish.",
+  AlreadyInTeam: "This player is already in a team. Leave it first.",
+  InvalidTeamName: "Team names must be 1 to 32 bytes long.",
+  NotTeamLeader: "Only the team leader can invite players.",
+  NoTeamInvite: "You have no invite for this team.",
+  TeamFull: "This team is full.",
+  NotInTeam: "You are not in a team.",
+  TeamNotFound: "This team does not exist.",
+  TeamHasNotMined: "Your team has not mined this season yet. Mine first, then rank your team.",
+  RewardTokenNotSet: "No reward token is configured.",
+  RankNotRewarded: "This rank has no reward in the schedule.",
+  PlayerAlreadyRewarded: "This player was already rewarded for the season.",
+  RankAlreadyRewarded: "This rank was already rewarded for the season.",
+  InsufficientRewardPool: "The reward pool is too small for this payout. Fund it first.",
+  NoRewardToClaim: "You have no reward to claim.",
+  TokenTransferFailed: "The reward token transfer failed.",
+};
+
+// Relayer SDK failures are plain Errors; recognise them by their wording
+const RELAYER_ERROR_PATTERN = /relayer|gateway|kms|input ?proof|failed to fetch|fetch failed/i;
+
+function _errorMessage(e: unknown): string {
+  if (e instanceof Error) {
+    return e.message;
+  }
+  if (typeof e === "object" && e !== null && "message" in e) {
+    return String((e as { message: unknown }).message);
+  }
+  return String(e);
+}
+
+/**
+ * Looks for revert data in the places wallets and providers put it:
+ * `e.data`, `e.error.data`, `e.info.error.data`, possibly nested one level as `{ data }`.
+ */
+function _findRevertData(e: unknown, depth = 0): string | undefined {
+  if (depth > 4 || typeof e !== "object" || e === null) {
+    return undefined;
+  }
+  const { data, error, info } = e as { data?: unknown; error?: unknown; info?: unknown };
+  if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) {
+    return data;
+  }
+  return (
+    _findRevertData(data, depth + 1) ??
+    _findRevertData(error, depth + 1) ??
+    _findRevertData(info, depth + 1)
+  );
+}
+
+function _isUserRejection(e: unknown): boolean {
+  if (ethers.isError(e, "ACTION_REJECTED")) {
+    return true;
+  }
+  // EIP-1193 userRejectedRequest, possibly wrapped by ethers
+  const code = (e as { code?: unknown; error?: { code?: unknown } })?.code;
+  const innerCode = (e as { error?: { code?: unknown } })?.error?.code;
+  return code === 4001 || innerCode === 4001;
+}
+
+function _decodeContractError(
+  name: string,
+  args: ethers.Result | unknown[]
+): MiningChallengeErrorType {
+  switch (name) {
+    case "PlayerNotFound": {
+      const seasonId = Number(args[0]);
+      return {
+        type: "PlayerNotFound",
+        seasonId,
+        player: String(args[1]),
+        message: `No mining recorded in season ${seasonId} yet. Mine once to join the leaderboard.`,
+      };
+    }
+    case "MineCooldown": {
+      const nextAllowed = Number(args[0]);
+      return {
+        type: "MineCooldown",
+        nextAllowed,
+        message: `Too soon to mine again. You can mine from ${new Date(
+          nextAllowed * 1000
+        ).toLocaleTimeString()} (chain time).`,
+      };
+    }
+    case "IndexOutOfBounds":
+      return {
+        type: "IndexOutOfBounds",
+        index: Number(args[0]),
+        length: Number(args[1]),
+        message: "The player list changed while loading. Please refresh.",
+      };
+    case "ContractPaused":
+      return {
+        type: "ContractPaused",
+        message: "The challenge is paused by its operators. Please try again later.",
+      };
+    case "MissingRole":
+      return {
+        type: "MissingRole",
+        role: String(args[0]),
+        account: String(args[1]),
+        message: "Your account does not have the role required for this action.",
+      };
+    default:
+      return {
+        type: "ContractError",
+        name,
+        args: Array.from(args),
+        message: CONTRACT_ERROR_MESSAGES[name] ?? `The contract rejected the request (${name}).`,
+      };
+  }
+}
+
+/**
+ * Decodes anything thrown by a MiningChallenge call, a wallet, the relayer SDK or the
+ * FHEVM instance into a MiningChallengeErrorType.
+ */
+export function decodeMiningChallengeError(e: unknown): MiningChallengeErrorType {
+  if (e instanceof FhevmReactError) {
+    return { type: "FhevmError", code: e.code, message: e.message || `FHEVM error (${e.code}).` };
+  }
+
+  if (_isUserRejection(e)) {
+    return { type: "UserRejected", message: "Request rejected in your wallet." };
+  }
+
+  if (ethers.isError(e, "INSUFFICIENT_FUNDS")) {
+    return {
+      type: "InsufficientFunds",
+      message: "Your account cannot pay the gas for this transaction. Top it up and retry.",
+    };
+  }
+
+  // ethers decodes custom errors itself when the contract was built with the full ABI
+  if (ethers.isError(e, "CALL_EXCEPTION") && e.revert) {
+    if (miningChallengeInterface.getError(e.revert.name)) {
+      return _decodeContractError(e.revert.name, e.revert.args);
+    }
+  }
+
+  const data = _findRevertData(e);
+  if (data) {
+    const parsed = (() => {
+      try {
+        return miningChallengeInterface.parseError(data);
+      } catch {
+        return null;
+      }
+    })();
+    if (parsed) {
+      return _decodeContractError(parsed.name, parsed.args);
+    }
+  }
+
+  if (ethers.isError(e, "CALL_EXCEPTION")) {
+    return {
+      type: "TransactionReverted",
+      message: "The transaction reverted. Refresh the data and try again.",
+    };
+  }
+
+  if (ethers.isError(e, "NETWORK_ERROR") || ethers.isError(e, "TIMEOUT")) {
+    return {
+      type: "NetworkError",
+      message: "The network did not respond. Check your connection and try again.",
+    };
+  }
+
+  const message = _errorMessage(e);
+  if (RELAYER_ERROR_PATTERN.test(message)) {
+    return {
+      type: "RelayerError",
+      message: "The FHEVM relayer could not process the request. Please try again in a moment.",
+    };
+  }
+
+  return { type: "Unknown", message: message || "Something went wrong. Please try again." };
+}
@@ -0,0 +1,287 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  GenericStringClearableStorage,
+  GenericStringInMemoryStorage,
+  GenericStringLocalStorage,
+} from "@/fhevm/GenericStringStorage";
+import { GenericStringIndexedDBStorage } from "@/fhevm/GenericStringIndexedDBStorage";
+import { GenericStringEncryptedStorage } from "@/fhevm/GenericStringEncryptedStorage";
+import {
+  DEFAULT_SIGNATURE_DURATION_DAYS,
+  FhevmDecryptionSignature,
+  StoredFhevmDecryptionSignature,
+} from "@/fhevm/FhevmDecryptionSignature";
+import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
+
+export type DecryptionSignatureStorageBackend = "memory" | "localStorage" | "indexedDB";
+
+// Prefix of every persisted key, followed by the lowercased account address
+const STORAGE_NAMESPACE = "mining-challenge:decryption-signatures";
+
+// Whether the user opted in to passphrase encryption, stored in localStorage as "true"
+const ENCRYPTION_SETTING_KEY = "mining-challenge:settings:encrypt-decryption-signatures";
+
+// User activity that postpones the automatic re-lock
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "mousemove", "scroll"] as const;
+
+interface UseDecryptionSignatureStorageState {
+  storage: GenericStringClearableStorage;
+  backend: DecryptionSignatureStorageBackend;
+  forgetSignatures: () => Promise<void>;
+  // Lifetime of newly signed decryption signatures
+  signatureDurationDays: number;
+  // Whether the user can opt in to passphrase encryption (persistent backend with `encryption` set)
+  canEncrypt: boolean;
+  isEncryptionEnabled: boolean;
+  // Turns encryption on or off; the stored signatures are forgotten either way
+  setEncryptionEnabled: (enabled: boolean) => Promise<void>;
+  // undefined when stored values are not passphrase-encrypted
+  isLocked: boolean | undefined;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+}
+
+interface DecryptionSignatureStorageProviderProps {
+  backend: DecryptionSignatureStorageBackend;
+  // Let the user opt in to encrypting persisted signatures with a passphrase, re-locking after
+  // `autoLockMinutes` without activity. Off until the user enables it.
+  encryption?: { autoLockMinutes: number };
+  // Lifetime of newly signed decryption signatures, e.g. 1 for session-like signatures
+  signatureDurationDays?: number;
+  children: ReactNode;
+}
+
+const DecryptionSignatureStorageContext = createContext<
+  UseDecryptionSignatureStorageState | undefined
+>(undefined);
+
+export const useDecryptionSignatureStorage = () => {
+  const context = useContext(DecryptionSignatureStorageContext);
+  if (!context) {
+    throw new Error(
+      "useDecryptionSignatureStorage must be used within a DecryptionSignatureStorageProvider"
+    );
+  }
+  return context;
+};
+
+function _loadEncryptionSetting(): boolean {
+  try {
+    return window.localStorage.getItem(ENCRYPTION_SETTING_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+function createStorage(
+  backend: DecryptionSignatureStorageBackend,
+  account: string | undefined
+): GenericStringClearableStorage {
+  // Nothing is persisted until an account is known
+  if (backend === "memory" || !account) {
+    return new GenericStringInMemoryStorage();
+  }
+  const namespace = `${STORAGE_NAMESPACE}:${account.toLowerCase()}`;
+  return backend === "indexedDB"
+    ? new GenericStringIndexedDBStorage(namespace)
+    : new GenericStringLocalStorage(namespace);
+}
+
+/**
+ * Provides the storage used to cache decryption signatures, namespaced by the
+ * connected account. The last account's signatures are purged when the user
+ * disconnects from the app; switching wallets or accounts keeps them.
+ */
+export const DecryptionSignatureStorageProvider: React.FC<
+  DecryptionSignatureStorageProviderProps
+> = ({
+  backend,
+  encryption,
+  signatureDurationDays = DEFAULT_SIGNATURE_DURATION_DAYS,
+  children,
+}) => {
+  const { accounts, isConnected, disconnectCount } = useMetaMaskEthersSigner();
+  const account = isConnected ? accounts?.[0] : undefined;
+  // Encryption only matters for values that outlive the page
+  const canEncrypt = encryption !== undefined && backend !== "memory";
+  const autoLockMinutes = encryption?.autoLockMinutes;
+
+  const [isEncryptionEnabled, setIsEncryptionEnabled] = useState<boolean>(false);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setIsEncryptionEnabled(_loadEncryptionSetting());
+  }, []);
+
+  const isEncrypted = canEncrypt && isEncryptionEnabled;
+
+  const storage = useMemo(() => {
+    const base = createStorage(backend, account);
+    return isEncrypted && account ? new GenericStringEncryptedStorage(base) : base;
+  }, [backend, account, isEncrypted]);
+
+  const [isLocked, setIsLocked] = useState<boolean | undefined>(undefined);
+
+  useEffect(() => {
+    setIsLocked(storage instanceof GenericStringEncryptedStorage ? storage.isLocked : undefined);
+  }, [storage]);
+
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      if (!(storage instanceof GenericStringEncryptedStorage)) {
+        return true;
+      }
+      const ok = await storage.unlock(passphrase);
+      setIsLocked(storage.isLocked);
+      return ok;
+    },
+    [storage]
+  );
+
+  const lock = useCallback(() => {
+    if (storage instanceof GenericStringEncryptedStorage) {
+      storage.lock();
+      setIsLocked(true);
+    }
+  }, [storage]);
+
+  // Re-lock after a period without user activity
+  useEffect(() => {
+    if (isLocked !== false || !autoLockMinutes) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+
+    restart();
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, restart, { passive: true });
+    }
+
+    return () => {
+      clearTimeout(timeout);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, restart);
+      }
+    };
+  }, [isLocked, autoLockMinutes, lock]);
+
+  // Last storage used by a connected account, purged on an explicit disconnect.
+  // `account` is also briefly undefined while switching wallets, which must not purge.
+  const connectedStorageRef = useRef<GenericStringClearableStorage | undefined>(undefined);
+
+  useEffect(() => {
+    if (account) {
+      connectedStorageRef.current = storage;
+    }
+  }, [account, storage]);
+
+  useEffect(() => {
+    if (disconnectCount === 0) {
+      return;
+    }
+    const previous = connectedStorageRef.current;
+    connectedStorageRef.current = undefined;
+    if (previous) {
+      Promise.resolve(previous.clear()).catch((e) =>
+        console.error("Failed to purge decryption signatures:", e)
+      );
+    }
+  }, [disconnectCount]);
+
+  // Plaintext keypairs must not stay behind once encryption is on, and encrypted values are
+  // unreadable once it is off, so switching starts from an empty storage
+  const setEncryptionEnabled = useCallback(
+    async (enabled: boolean) => {
+      if (!canEncrypt || enabled === isEncryptionEnabled) {
+        return;
+      }
+      await storage.clear();
+      try {
+        window.localStorage.setItem(ENCRYPTION_SETTING_KEY, String(enabled));
+      } catch {
+        // Storage unavailable, the setting only lasts for this page
+      }
+      setIsEncryptionEnabled(enabled);
+    },
+    [canEncrypt, isEncryptionEnabled, storage]
+  );
+
+  const forgetSignatures = useCallback(async () => {
+    await storage.clear();
+    // Clearing an encrypted storage also drops its passphrase and locks it
+    if (storage instanceof GenericStringEncryptedStorage) {
+      setIsLocked(true);
+    }
+  }, [storage]);
+
+  return (
+    <DecryptionSignatureStorageContext.Provider
+      value={{
+        storage,
+        backend,
+        forgetSignatures,
+        signatureDurationDays,
+        canEncrypt,
+        isEncryptionEnabled,
+        setEncryptionEnabled,
+        isLocked,
+        unlock,
+        lock,
+      }}
+    >
+      {children}
+    </DecryptionSignatureStorageContext.Provider>
+  );
+};
+
+/**
+ * Lists the decryption signatures stored for `userAddress` and revokes them.
+ * Revoking deletes the signature together with its decryption keypair, so the
+ * next decryption asks for a new signature.
+ */
+export const useStoredDecryptionSignatures = (userAddress: string | undefined) => {
+  const { storage, isLocked } = useDecryptionSignatureStorage();
+  const [signatures, setSignatures] = useState<StoredFhevmDecryptionSignature[]>([]);
+
+  const refresh = useCallback(() => {
+    if (!userAddress) {
+      setSignatures([]);
+      return;
+    }
+    FhevmDecryptionSignature.listFromGenericStringStorage(storage, userAddress)
+      .then(setSignatures)
+      .catch((e) => console.error("Failed to list decryption signatures:", e));
+  }, [storage, userAddress]);
+
+  // Reload when the storage, the account or the lock state changes
+  useEffect(() => {
+    refresh();
+  }, [refresh, isLocked]);
+
+  const revoke = useCallback(
+    async (key: string) => {
+      if (!userAddress) {
+        return;
+      }
+      await FhevmDecryptionSignature.revokeFromGenericStringStorage(storage, userAddress, key);
+      refresh();
+    },
+    [storage, userAddress, refresh]
+  );
+
+  return { signatures, refresh, revoke };
+};
@@ -0,0 +1,103 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  FhevmMockChains,
+  getEnvFhevmMockChains,
+  parseFhevmMockChains,
+} from "@/fhevm/fhevmMockChains";
+
+// Mock chains edited in the dev settings panel, stored as JSON; overrides the env
+const MOCK_CHAINS_STORAGE_KEY = "mining-challenge:dev-settings:mock-chains";
+
+interface UseDevSettingsState {
+  // Effective mock chains: the saved dev settings if any, otherwise the env/default ones
+  mockChains: FhevmMockChains;
+  envMockChains: FhevmMockChains;
+  // True when mockChains comes from the dev settings rather than the env
+  isCustomMockChains: boolean;
+  // Validates and saves `mockChains`, returns the validation errors (empty when saved)
+  saveMockChains: (mockChains: Record<string, string>) => string[];
+  resetMockChains: () => void;
+}
+
+const DevSettingsContext = createContext<UseDevSettingsState | undefined>(undefined);
+
+export const useDevSettings = () => {
+  const context = useContext(DevSettingsContext);
+  if (!context) {
+    throw new Error("useDevSettings must be used within a DevSettingsProvider");
+  }
+  return context;
+};
+
+function _loadMockChains(): FhevmMockChains | undefined {
+  try {
+    const raw = window.localStorage.getItem(MOCK_CHAINS_STORAGE_KEY);
+    if (!raw) {
+      return undefined;
+    }
+    const { mockChains, errors } = parseFhevmMockChains(JSON.parse(raw));
+    return errors.length === 0 ? mockChains : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Developer settings persisted in this browser. Currently the FHEVM mock chains, so a
+ * local node on another port or chain id works without rebuilding the app.
+ */
+export const DevSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const envMockChains = useMemo(() => getEnvFhevmMockChains(), []);
+  const [customMockChains, setCustomMockChains] = useState<FhevmMockChains | undefined>(
+    undefined
+  );
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setCustomMockChains(_loadMockChains());
+  }, []);
+
+  const saveMockChains = useCallback((value: Record<string, string>) => {
+    const { mockChains, errors } = parseFhevmMockChains(value);
+    if (errors.length > 0) {
+      return errors;
+    }
+    try {
+      window.localStorage.setItem(MOCK_CHAINS_STORAGE_KEY, JSON.stringify(mockChains));
+    } catch {
+      // Storage unavailable, the settings only last for this page
+    }
+    setCustomMockChains(mockChains);
+    return [];
+  }, []);
+
+  const resetMockChains = useCallback(() => {
+    try {
+      window.localStorage.removeItem(MOCK_CHAINS_STORAGE_KEY);
+    } catch {
+      // Nothing persisted
+    }
+    setCustomMockChains(undefined);
+  }, []);
+
+  const value = useMemo<UseDevSettingsState>(
+    () => ({
+      mockChains: customMockChains ?? envMockChains,
+      envMockChains,
+      isCustomMockChains: customMockChains !== undefined,
+      saveMockChains,
+      resetMockChains,
+    }),
+    [customMockChains, envMockChains, saveMockChains, resetMockChains]
+  );
+
+  return <DevSettingsContext.Provider value={value}>{children}</DevSettingsContext.Provider>;
+};
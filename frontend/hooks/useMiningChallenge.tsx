@@ -11,30 +11,58 @@ import {
 } from "react";
 
 import { FhevmInstance } from "@/fhevm/fhevmTypes";
-import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { useDecryptHandles } from "@/fhevm/useDecryptHandles";
 
-import { MiningChallengeAddresses } from "@/abi/MiningChallengeAddresses";
+import {
+  AdminState,
+  decodeClearUint,
+  MineCooldown,
+  MiningChallengeClient,
+  MiningHistoryEntry,
+  RankProgress,
+  RewardTokenInfo,
+  secondsUntilNextMine,
+  YieldConfig,
+} from "@/client/MiningChallengeClient";
+
+import {
+  MiningChallengeAddresses,
+  MiningChallengeChainInfo,
+} from "@/abi/MiningChallengeAddresses";
 import { MiningChallengeABI } from "@/abi/MiningChallengeABI";
 
-export type ClearValueType = {
-  handle: string;
-  clear: string | bigint | boolean;
-};
+import {
+  decodeMiningChallengeError,
+  MiningChallengeErrorType,
+} from "@/hooks/miningChallengeErrors";
 
-type MiningChallengeInfoType = {
+export type MiningChallengeInfoType = {
   abi: typeof MiningChallengeABI.abi;
   address?: `0x${string}`;
   chainId?: number;
   chainName?: string;
+  // Public JSON-RPC endpoint for read-only access without a wallet
+  rpcUrl?: string;
+  // Block the contract was deployed in, where log queries start
+  deployBlock?: number;
 };
 
+// Ledger entry with the values already in the decryption cache
+export type MiningHistoryEntryType = MiningHistoryEntry & {
+  amount?: bigint;
+  total?: bigint;
+};
+
+// What a running decryption was started for, so each button reports its own progress
+type DecryptTargetType = "total" | "rank" | "history" | "all";
+
 // Removed PlayerRanking type - no longer using global rankings
 
 /**
  * Resolves MiningChallenge contract metadata for the given EVM chainId.
  */
-function getMiningChallengeByChainId(
+export function getMiningChallengeByChainId(
   chainId: number | undefined
 ): MiningChallengeInfoType {
   if (!chainId) {
@@ -52,16 +80,33 @@ function getMiningChallengeByChainId(
     address: entry.address as `0x${string}` | undefined,
     chainId: entry.chainId ?? chainId,
     chainName: entry.chainName,
+    rpcUrl: entry.rpcUrl,
+    deployBlock: entry.deployBlock,
     abi: MiningChallengeABI.abi,
   };
 }
 
+/**
+ * Chains of the address registry with a deployed MiningChallenge.
+ */
+export function getDeployedChains(): (MiningChallengeChainInfo & { chainId: number })[] {
+  return Object.values(MiningChallengeAddresses)
+    .filter(
+      (entry): entry is MiningChallengeChainInfo & { chainId: number } =>
+        entry.chainId !== undefined &&
+        Boolean(entry.address) &&
+        entry.address !== ethers.ZeroAddress
+    );
+}
+
 /**
  * Main MiningChallenge React hook with mining, decryption, and ranking functionality.
  */
 export const useMiningChallenge = (parameters: {
   instance: FhevmInstance | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
+  // Lifetime of newly signed decryption signatures (defaults to DEFAULT_SIGNATURE_DURATION_DAYS)
+  fhevmDecryptionSignatureDurationDays?: number;
   eip1193Provider: ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   ethersSigner: ethers.JsonRpcSigner | undefined;
@@ -74,6 +119,7 @@ export const useMiningChallenge = (parameters: {
   const {
     instance,
     fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
     chainId,
     ethersSigner,
     ethersReadonlyProvider,
@@ -83,26 +129,82 @@ export const useMiningChallenge = (parameters: {
 
   // States
   const [playerTotalMined, setPlayerTotalMined] = useState<string | undefined>(undefined);
-  const [clearPlayerTotal, setClearPlayerTotal] = useState<ClearValueType | undefined>(undefined);
   const [totalMinedAmount, setTotalMinedAmount] = useState<string | undefined>(undefined);
   const [playerCount, setPlayerCount] = useState<number | undefined>(undefined);
   const [playerRankEncrypted, setPlayerRankEncrypted] = useState<string | undefined>(undefined);
-  const [playerRankDecrypted, setPlayerRankDecrypted] = useState<bigint | undefined>(undefined);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
-  const [isDecrypting, setIsDecrypting] = useState<boolean>(false);
+  const [decrypting, setDecrypting] = useState<DecryptTargetType | undefined>(undefined);
   const [isMining, setIsMining] = useState<boolean>(false);
   const [isCalculatingRank, setIsCalculatingRank] = useState<boolean>(false);
-  const [isDecryptingRank, setIsDecryptingRank] = useState<boolean>(false);
-  const [message, setMessage] = useState<string>("");
+  const [rankProgress, setRankProgress] = useState<RankProgress | undefined>(undefined);
+  const [currentSeason, setCurrentSeason] = useState<number | undefined>(undefined);
+  const [selectedSeason, setSelectedSeason] = useState<number | undefined>(undefined);
+  const [maxMineAmount, setMaxMineAmount] = useState<number | undefined>(undefined);
+  const [yieldConfig, setYieldConfig] = useState<YieldConfig | undefined>(undefined);
+  const [adminState, setAdminState] = useState<AdminState | undefined>(undefined);
+  const [rewardTokenInfo, setRewardTokenInfo] = useState<RewardTokenInfo | undefined>(undefined);
+  const [claimableReward, setClaimableReward] = useState<bigint | undefined>(undefined);
+  const [isClaimingReward, setIsClaimingReward] = useState<boolean>(false);
+  const [historyEntries, setHistoryEntries] = useState<MiningHistoryEntry[] | undefined>(
+    undefined
+  );
+  const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(false);
+  const [cooldown, setCooldown] = useState<MineCooldown | undefined>(undefined);
+  // Local clock driving the cooldown countdown, converted to chain time with cooldown.chainTimeOffset
+  const [clockNow, setClockNow] = useState<number>(() => Date.now());
+  const [message, setStatusMessage] = useState<string>("");
+  const [error, setError] = useState<MiningChallengeErrorType | undefined>(undefined);
+
+  // A status update replaces the last reported error in the banner
+  const setMessage = useCallback((value: string) => {
+    setError(undefined);
+    setStatusMessage(value);
+  }, []);
+
+  const reportError = useCallback((e: unknown) => {
+    const decoded = decodeMiningChallengeError(e);
+    setError(decoded);
+    setStatusMessage(decoded.message);
+    return decoded;
+  }, []);
 
   // Refs
   const miningChallengeRef = useRef<MiningChallengeInfoType | undefined>(undefined);
   const isRefreshingRef = useRef<boolean>(isRefreshing);
-  const isDecryptingRef = useRef<boolean>(isDecrypting);
+  // Bumped on season switches so an in-flight refresh can tell its results are stale
+  const refreshGenerationRef = useRef<number>(0);
+  const decryptingRef = useRef<DecryptTargetType | undefined>(decrypting);
   const isMiningRef = useRef<boolean>(isMining);
-  const clearPlayerTotalRef = useRef<ClearValueType>(undefined);
+  const selectedSeasonRef = useRef<number | undefined>(selectedSeason);
+  const maxMineAmountRef = useRef<number | undefined>(maxMineAmount);
+  const yieldConfigRef = useRef<YieldConfig | undefined>(yieldConfig);
+  const playerRankEncryptedRef = useRef<string | undefined>(playerRankEncrypted);
+  playerRankEncryptedRef.current = playerRankEncrypted;
 
-  const isDecrypted = playerTotalMined && playerTotalMined === clearPlayerTotal?.handle;
+  // Clear values are cached by handle, so a handle seen again (e.g. after a refresh) stays decrypted
+  const {
+    decrypt: decryptClearValues,
+    getClearValue,
+  } = useDecryptHandles({
+    instance,
+    ethersSigner,
+    chainId,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    sameChain,
+    sameSigner,
+  });
+
+  const clearPlayerTotal =
+    playerTotalMined === ethers.ZeroHash
+      ? BigInt(0)
+      : decodeClearUint(getClearValue(playerTotalMined));
+  const playerRankDecrypted = decodeClearUint(getClearValue(playerRankEncrypted));
+  const isDecrypted = Boolean(playerTotalMined) && clearPlayerTotal !== undefined;
+
+  const isDecrypting = decrypting === "total" || decrypting === "all";
+  const isDecryptingRank = decrypting === "rank" || decrypting === "all";
+  const isDecryptingHistory = decrypting === "history" || decrypting === "all";
 
   // MiningChallenge contract info
   const miningChallenge = useMemo(() => {
@@ -116,278 +218,392 @@ export const useMiningChallenge = (parameters: {
     return c;
   }, [chainId]);
 
+  // Contract and FHE logic; this hook only keeps React state around it
+  const client = useMemo(() => {
+    if (!miningChallenge.address || !ethersSigner) {
+      return undefined;
+    }
+    return new MiningChallengeClient({
+      instance,
+      signer: ethersSigner,
+      readonlyRunner: ethersReadonlyProvider,
+      storage: fhevmDecryptionSignatureStorage,
+      address: miningChallenge.address,
+      signatureDurationDays: fhevmDecryptionSignatureDurationDays,
+      deployBlock: miningChallenge.deployBlock,
+    });
+  }, [
+    miningChallenge,
+    instance,
+    ethersSigner,
+    ethersReadonlyProvider,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+  ]);
+
+  // Calls of a replaced client (network, account or instance change) are aborted
+  const clientSignalRef = useRef<AbortSignal | undefined>(undefined);
+  useEffect(() => {
+    const controller = new AbortController();
+    clientSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, [client]);
+
   // Refresh player's total mined amount
   const refreshPlayerTotal = useCallback(() => {
     if (isRefreshingRef.current) {
       return;
     }
 
-    if (
-      !miningChallengeRef.current ||
-      !miningChallengeRef.current?.chainId ||
-      !miningChallengeRef.current?.address ||
-      !ethersReadonlyProvider ||
-      !ethersSigner
-    ) {
+    if (!client) {
       setPlayerTotalMined(undefined);
+      setPlayerCount(undefined);
       return;
     }
 
     isRefreshingRef.current = true;
     setIsRefreshing(true);
 
-    const thisChainId = miningChallengeRef.current.chainId;
-    const thisContractAddress = miningChallengeRef.current.address;
-    const thisEthersSigner = ethersSigner;
+    const signal = clientSignalRef.current;
 
-    const thisContract = new ethers.Contract(
-      thisContractAddress,
-      miningChallengeRef.current.abi,
-      ethersReadonlyProvider
-    );
+    const run = async () => {
+      const generation = refreshGenerationRef.current;
+      const isStale = () => generation !== refreshGenerationRef.current;
 
-    // First check if player exists
-    thisContract
-      .playerExists(thisEthersSigner.address)
-      .then((exists: boolean) => {
-        if (!exists) {
-          // Player doesn't exist yet - this is normal for new users
-          if (
-            sameChain.current(thisChainId) &&
-            thisContractAddress === miningChallengeRef.current?.address
-          ) {
-            setPlayerTotalMined(undefined);
-            setMessage(""); // Clear any previous error messages
-          }
-          isRefreshingRef.current = false;
-          setIsRefreshing(false);
+      try {
+        const thisCurrentSeason = await client.getCurrentSeason({ signal });
+        // Follow the live season unless the player is browsing an archived one
+        const thisSeasonId = selectedSeasonRef.current ?? thisCurrentSeason;
+
+        setCurrentSeason(thisCurrentSeason);
+        selectedSeasonRef.current = thisSeasonId;
+        setSelectedSeason(thisSeasonId);
+
+        const [value, thisPlayerCount] = await Promise.all([
+          client.getTotalHandle(thisSeasonId, { signal }),
+          client.getPlayerCount(thisSeasonId, { signal }),
+        ]);
+        // Restore the last rank computed on-chain if it belongs to this season
+        const lastRank = value ? await client.getLastRank({ signal }) : undefined;
+
+        if (signal?.aborted || isStale()) {
           return;
         }
 
-        // Player exists, get their total mined amount
-        return thisContract.getPlayerTotalMined(thisEthersSigner.address);
-      })
-      .then((value: string | undefined) => {
-        if (value !== undefined) {
-          if (
-            sameChain.current(thisChainId) &&
-            thisContractAddress === miningChallengeRef.current?.address
-          ) {
-            setPlayerTotalMined(value);
-            setMessage(""); // Clear any previous error messages
-          }
+        // undefined: the player hasn't mined in this season yet - this is normal for new users
+        setPlayerTotalMined(value);
+        setPlayerCount(thisPlayerCount);
+        if (lastRank?.seasonId === thisSeasonId && playerRankEncryptedRef.current !== lastRank.handle) {
+          setPlayerRankEncrypted(lastRank.handle);
         }
-
-        isRefreshingRef.current = false;
-        setIsRefreshing(false);
-      })
-      .catch((e: Error) => {
-        // Check if error is about player not existing
-        const errorMessage = e.toString();
-        if (errorMessage.includes("Player does not exist")) {
-          // Player doesn't exist - this is normal for new users
-          if (
-            sameChain.current(thisChainId) &&
-            thisContractAddress === miningChallengeRef.current?.address
-          ) {
-            setPlayerTotalMined(undefined);
-            setMessage(""); // Clear error message - this is expected for new users
-          }
+        setMessage(""); // Clear any previous error messages
+      } catch (e) {
+        if (signal?.aborted || isStale()) {
+          return;
+        }
+        console.error("Failed to fetch mining data:", e);
+        reportError(e);
+      } finally {
+        if (!signal?.aborted && isStale()) {
+          // The season was switched mid-flight: fetch again for the one now selected
+          run();
         } else {
-          // Other errors - show friendly message
-          setMessage("Failed to fetch mining data. Please try again later. If the problem persists, please check your network connection.");
+          isRefreshingRef.current = false;
+          setIsRefreshing(false);
         }
-        isRefreshingRef.current = false;
-        setIsRefreshing(false);
-      });
-  }, [ethersReadonlyProvider, ethersSigner, sameChain]);
+      }
+    };
+
+    run();
+  }, [client, setMessage, reportError]);
 
   // Auto refresh player total
   useEffect(() => {
     refreshPlayerTotal();
   }, [refreshPlayerTotal]);
 
-  // Decrypt player's total mined amount
-  const decryptPlayerTotal = useCallback(() => {
-    if (isRefreshingRef.current || isDecryptingRef.current) {
+  // Refresh the public per-mine cap enforced by the contract
+  const refreshMaxMineAmount = useCallback(() => {
+    if (!client) {
+      maxMineAmountRef.current = undefined;
+      setMaxMineAmount(undefined);
       return;
     }
 
-    if (!miningChallenge.address || !instance || !ethersSigner) {
-      return;
-    }
+    const signal = clientSignalRef.current;
+
+    client
+      .getMaxMineAmount({ signal })
+      .then((value) => {
+        if (!signal?.aborted) {
+          maxMineAmountRef.current = value;
+          setMaxMineAmount(value);
+        }
+      })
+      .catch((e: Error) => {
+        if (!signal?.aborted) {
+          console.error("Failed to load the mining cap:", e);
+        }
+      });
+  }, [client]);
 
-    if (playerTotalMined === clearPlayerTotalRef.current?.handle) {
+  // Auto refresh mining cap
+  useEffect(() => {
+    refreshMaxMineAmount();
+  }, [refreshMaxMineAmount]);
+
+  // Refresh the mining mode (player-chosen amount vs on-chain random yield) and yield bounds
+  const refreshYieldConfig = useCallback(() => {
+    if (!client) {
+      yieldConfigRef.current = undefined;
+      setYieldConfig(undefined);
       return;
     }
 
-    if (!playerTotalMined) {
-      setClearPlayerTotal(undefined);
-      clearPlayerTotalRef.current = undefined;
+    const signal = clientSignalRef.current;
+
+    client
+      .getYieldConfig({ signal })
+      .then((config) => {
+        if (!signal?.aborted) {
+          yieldConfigRef.current = config;
+          setYieldConfig(config);
+        }
+      })
+      .catch((e: Error) => {
+        if (!signal?.aborted) {
+          console.error("Failed to load the mining mode:", e);
+        }
+      });
+  }, [client]);
+
+  // Auto refresh mining mode
+  useEffect(() => {
+    refreshYieldConfig();
+  }, [refreshYieldConfig]);
+
+  // Refresh the mining cooldown of the connected player in the current season
+  const refreshCooldown = useCallback(() => {
+    if (!client) {
+      setCooldown(undefined);
       return;
     }
 
-    if (playerTotalMined === ethers.ZeroHash) {
-      setClearPlayerTotal({ handle: playerTotalMined, clear: BigInt(0) });
-      clearPlayerTotalRef.current = { handle: playerTotalMined, clear: BigInt(0) };
+    const signal = clientSignalRef.current;
+
+    client
+      .getMineCooldown({ signal })
+      .then((value) => {
+        if (!signal?.aborted) {
+          setCooldown(value);
+          setClockNow(Date.now());
+        }
+      })
+      .catch((e: Error) => {
+        if (!signal?.aborted) {
+          console.error("Failed to load the mining cooldown:", e);
+        }
+      });
+  }, [client]);
+
+  // Auto refresh cooldown, including after each mine (the total handle changes)
+  useEffect(() => {
+    refreshCooldown();
+  }, [refreshCooldown, playerTotalMined]);
+
+  const nextMineAt =
+    cooldown?.lastMineTime !== undefined
+      ? cooldown.lastMineTime + cooldown.minMineInterval
+      : undefined;
+  const secondsUntilMine = cooldown ? secondsUntilNextMine(cooldown, clockNow) : undefined;
+
+  // Tick the countdown once per second while the cooldown runs
+  useEffect(() => {
+    if (!secondsUntilMine) {
       return;
     }
+    const timeout = setTimeout(() => setClockNow(Date.now()), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsUntilMine, clockNow]);
+
+  // Pre-flight check against fresh on-chain values, so a mine that would revert never reaches the wallet
+  const checkMineCooldown = useCallback(
+    async (thisClient: MiningChallengeClient, signal: AbortSignal | undefined) => {
+      const value = await thisClient.getMineCooldown({ signal });
+      const wait = secondsUntilNextMine(value, Date.now());
+      if (wait > 0) {
+        setCooldown(value);
+        setClockNow(Date.now());
+        setMessage(`Too soon to mine again. You can mine in ${wait}s.`);
+        return false;
+      }
+      return true;
+    },
+    [setMessage]
+  );
 
-    const thisChainId = chainId;
-    const thisContractAddress = miningChallenge.address;
-    const thisPlayerTotalHandle = playerTotalMined;
-    const thisEthersSigner = ethersSigner;
+  // Switch the leaderboard season being browsed (current or archived)
+  const selectSeason = useCallback(
+    (seasonId: number) => {
+      if (
+        seasonId < 1 ||
+        (currentSeason !== undefined && seasonId > currentSeason) ||
+        seasonId === selectedSeasonRef.current
+      ) {
+        return;
+      }
 
-    isDecryptingRef.current = true;
-    setIsDecrypting(true);
-    setMessage("Starting decryption process...");
+      selectedSeasonRef.current = seasonId;
+      setSelectedSeason(seasonId);
+      setPlayerTotalMined(undefined);
+      setPlayerRankEncrypted(undefined);
+      setMessage("");
 
-    const run = async () => {
-      const isStale = () =>
-        thisContractAddress !== miningChallengeRef.current?.address ||
-        !sameChain.current(thisChainId) ||
-        !sameSigner.current(thisEthersSigner);
+      // A refresh in flight drops its results and runs again for this season
+      refreshGenerationRef.current += 1;
+      refreshPlayerTotal();
+    },
+    [currentSeason, refreshPlayerTotal]
+  );
 
-      try {
-        const sig: FhevmDecryptionSignature | null =
-          await FhevmDecryptionSignature.loadOrSign(
-            instance,
-            [miningChallenge.address as `0x${string}`],
-            ethersSigner,
-            fhevmDecryptionSignatureStorage
-          );
+  // Decrypt the given handles of this contract with a single userDecrypt call
+  const decryptHandles = useCallback(
+    async (target: DecryptTargetType, handles: (string | undefined)[]) => {
+      if (!miningChallenge.address || decryptingRef.current) {
+        return undefined;
+      }
 
-        if (!sig) {
-          setMessage("Unable to build decryption signature. Please try again.");
-          return;
-        }
+      const thisContractAddress = miningChallenge.address;
 
-        if (isStale()) {
-          setMessage("Decryption cancelled due to network change.");
-          return;
-        }
+      decryptingRef.current = target;
+      setDecrypting(target);
 
-        setMessage("Processing decryption...");
-
-        const res = await instance.userDecrypt(
-          [{ handle: thisPlayerTotalHandle, contractAddress: thisContractAddress }],
-          sig.privateKey,
-          sig.publicKey,
-          sig.signature,
-          sig.contractAddresses,
-          sig.userAddress,
-          sig.startTimestamp,
-          sig.durationDays
+      try {
+        const res = await decryptClearValues(
+          handles
+            .filter((handle): handle is string => Boolean(handle))
+            .map((handle) => ({ handle, contractAddress: thisContractAddress }))
         );
 
-        setMessage("Decryption completed successfully!");
-
-        if (isStale()) {
-          setMessage("Decryption cancelled due to network change.");
-          return;
+        if (!res || thisContractAddress !== miningChallengeRef.current?.address) {
+          setMessage("Decryption cancelled. Please try again.");
+          return undefined;
         }
 
-        setClearPlayerTotal({ handle: thisPlayerTotalHandle, clear: res[thisPlayerTotalHandle as `0x${string}`] });
-        clearPlayerTotalRef.current = {
-          handle: thisPlayerTotalHandle,
-          clear: res[thisPlayerTotalHandle as `0x${string}`],
-        };
-
-        setMessage(
-          "Your total mined: " + clearPlayerTotalRef.current.clear + " resources"
-        );
+        return (handle: string) => decodeClearUint(res[handle.toLowerCase()]);
       } catch (error) {
         console.error("Decryption failed:", error);
-        setMessage("Decryption failed. Please try again.");
+        reportError(error);
+        return undefined;
       } finally {
-        isDecryptingRef.current = false;
-        setIsDecrypting(false);
+        decryptingRef.current = undefined;
+        setDecrypting(undefined);
+      }
+    },
+    [miningChallenge.address, decryptClearValues, reportError]
+  );
+
+  // Decrypt player's total mined amount
+  const decryptPlayerTotal = useCallback(() => {
+    if (isRefreshingRef.current || !playerTotalMined || playerTotalMined === ethers.ZeroHash) {
+      return;
+    }
+
+    const thisPlayerTotalHandle = playerTotalMined;
+
+    setMessage("Decrypting your total...");
+
+    const run = async () => {
+      const clearOf = await decryptHandles("total", [thisPlayerTotalHandle]);
+      if (!clearOf) {
+        return;
+      }
+
+      const clearTotal = clearOf(thisPlayerTotalHandle);
+      if (clearTotal === undefined) {
+        setMessage("Unable to retrieve your total. Please try again.");
+        return;
       }
+
+      setMessage("Your total mined: " + clearTotal.toString() + " resources");
     };
 
     run();
-  }, [
-    fhevmDecryptionSignatureStorage,
-    ethersSigner,
-    miningChallenge.address,
-    instance,
-    playerTotalMined,
-    chainId,
-    sameChain,
-    sameSigner,
-  ]);
+  }, [decryptHandles, playerTotalMined]);
 
-  // Mine resources
+  // Mine resources; in random yield mode the amount is ignored and generated on-chain
   const mine = useCallback(
-    (amount: number) => {
+    (amount?: number) => {
       if (isRefreshingRef.current || isMiningRef.current) {
         return;
       }
 
-      if (!miningChallenge.address || !instance || !ethersSigner || amount <= 0) {
+      if (!client) {
         return;
       }
 
-      const thisChainId = chainId;
-      const thisContractAddress = miningChallenge.address;
-      const thisEthersSigner = ethersSigner;
-      const thisContract = new ethers.Contract(
-        thisContractAddress,
-        miningChallenge.abi,
-        thisEthersSigner
-      );
+      const isRandom = Boolean(yieldConfigRef.current?.randomYieldMode);
+
+      if (!isRandom) {
+        if (!instance || amount === undefined || amount <= 0) {
+          return;
+        }
+
+        // Check against the public cap before encrypting: the contract would silently clamp it
+        const cap = maxMineAmountRef.current;
+        if (!Number.isInteger(amount) || (cap !== undefined && amount > cap)) {
+          setMessage(
+            cap !== undefined
+              ? `You can mine between 1 and ${cap} resources at once.`
+              : "The mining amount must be a whole number."
+          );
+          return;
+        }
+      }
+
+      const signal = clientSignalRef.current;
 
       isMiningRef.current = true;
       setIsMining(true);
-      setMessage(`Start mining ${amount} resources...`);
+      setMessage(isRandom ? "Mining for a random yield..." : `Mining ${amount} resources...`);
 
       const run = async () => {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-
-        const isStale = () =>
-          thisContractAddress !== miningChallengeRef.current?.address ||
-          !sameChain.current(thisChainId) ||
-          !sameSigner.current(thisEthersSigner);
-
         try {
-          const input = instance.createEncryptedInput(
-            thisContractAddress,
-            thisEthersSigner.address
-          );
-          input.add32(amount);
+          if (!(await checkMineCooldown(client, signal))) {
+            return;
+          }
 
-          const enc = await input.encrypt();
+          const receipt = await client.mine(amount, {
+            signal,
+            onSubmitted: () => setMessage(`Transaction submitted. Waiting for confirmation...`),
+          });
 
-          if (isStale()) {
+          if (signal?.aborted) {
             setMessage("Mining cancelled due to network change.");
             return;
           }
 
-          setMessage(`Mining ${amount} resources...`);
-
-          const tx: ethers.TransactionResponse = await thisContract.mine(
-            enc.handles[0],
-            enc.inputProof
-          );
-
-          setMessage(`Transaction submitted. Waiting for confirmation...`);
-
-          const receipt = await tx.wait();
-
           if (receipt?.status === 1) {
-            setMessage(`Successfully mined ${amount} resources!`);
+            setMessage(
+              isRandom
+                ? "Mined an encrypted yield! Decrypt your history to see how much you found."
+                : `Successfully mined ${amount} resources!`
+            );
           } else {
             setMessage(`Mining transaction failed. Please try again.`);
           }
 
-          if (isStale()) {
+          // Mining always lands in the live season
+          selectedSeasonRef.current = undefined;
+          setPlayerRankEncrypted(undefined);
+          refreshPlayerTotal();
+        } catch (error) {
+          if (signal?.aborted) {
             setMessage("Mining cancelled due to network change.");
             return;
           }
-
-          refreshPlayerTotal();
-        } catch (error) {
-          setMessage(`Mining failed. Please try again.`);
+          console.error("Mining failed:", error);
+          reportError(error);
         } finally {
           isMiningRef.current = false;
           setIsMining(false);
@@ -396,211 +612,325 @@ export const useMiningChallenge = (parameters: {
 
       run();
     },
-    [
-      ethersSigner,
-      miningChallenge.address,
-      miningChallenge.abi,
-      instance,
-      chainId,
-      refreshPlayerTotal,
-      sameChain,
-      sameSigner,
-    ]
+    [client, instance, checkMineCooldown, refreshPlayerTotal, setMessage, reportError]
   );
 
-  // Calculate player's own rank
-  const calculateMyRank = useCallback(() => {
-    if (!miningChallenge.address || !ethersSigner) {
+  // Calculate player's own rank in the given season
+  const calculateMyRank = useCallback((seasonId: number) => {
+    if (!client || seasonId < 1) {
       return;
     }
 
     setIsCalculatingRank(true);
-    setMessage("Calculating your rank...");
-
-    const thisChainId = chainId;
-    const thisContractAddress = miningChallenge.address;
-    const thisEthersSigner = ethersSigner;
+    setMessage(`Calculating your rank for season ${seasonId}...`);
 
-    const thisContract = new ethers.Contract(
-      miningChallenge.address,
-      miningChallenge.abi,
-      ethersSigner
-    );
+    const signal = clientSignalRef.current;
 
     const run = async () => {
-      const isStale = () =>
-        thisContractAddress !== miningChallengeRef.current?.address ||
-        !sameChain.current(thisChainId) ||
-        !sameSigner.current(thisEthersSigner);
-
       try {
-        // calculateMyRank is a state-changing function, so we need to send a transaction
-        setMessage("Submitting rank calculation request...");
-        
-        const tx: ethers.TransactionResponse = await thisContract.calculateMyRank();
-        
-        setMessage(`Transaction submitted. Waiting for confirmation...`);
-        
-        const receipt = await tx.wait();
-        
-        if (isStale()) {
-          setMessage("Rank calculation cancelled due to network change.");
+        const rankHandle = await client.calculateRank(seasonId, {
+          signal,
+          onProgress: (step, progress) => {
+            if (step === "start") {
+              setMessage("Submitting rank calculation request...");
+              return;
+            }
+            setRankProgress(progress);
+            setMessage(
+              step === "page"
+                ? `Calculating rank: page ${progress.page}/${progress.totalPages}`
+                : "Retrieving your rank..."
+            );
+          },
+        });
+
+        if (signal?.aborted || seasonId !== selectedSeasonRef.current) {
+          setMessage("Rank calculation cancelled due to network or season change.");
           return;
         }
 
-        setMessage("Retrieving your rank...");
-
-        // After transaction is confirmed, call the function again with staticCall to get the return value
-        const rankEnc = await thisContract.calculateMyRank.staticCall();
-        
-        if (isStale()) {
-          setMessage("Rank calculation cancelled due to network change.");
-          return;
-        }
-
-        // Convert rankEnc to string format (euint32 is returned as bytes32)
-        // ethers.js should already return it as a hex string, but ensure it's the right format
-        let rankHandle: string;
-        if (typeof rankEnc === "string") {
-          // Ensure it's a valid hex string with 0x prefix
-          rankHandle = rankEnc.startsWith("0x") ? rankEnc : `0x${rankEnc}`;
-        } else if (rankEnc instanceof Uint8Array) {
-          rankHandle = ethers.hexlify(rankEnc);
-        } else {
-          // Try to convert to hex string
-          rankHandle = ethers.hexlify(rankEnc);
-        }
-        
-        // Ensure it's exactly 66 characters (0x + 64 hex chars for bytes32)
-        if (rankHandle.length !== 66) {
-          // Pad or truncate to 66 characters
-          const hexPart = rankHandle.slice(2).padStart(64, "0").slice(0, 64);
-          rankHandle = `0x${hexPart}`;
-        }
-        
+        // A new handle is not in the decryption cache, so the decrypt button becomes available
         setPlayerRankEncrypted(rankHandle);
-        // Clear previous decrypted rank so decrypt button becomes available
-        setPlayerRankDecrypted(undefined);
         setMessage("Rank calculated successfully! Click decrypt to view your ranking.");
       } catch (error) {
+        if (signal?.aborted) {
+          setMessage("Rank calculation cancelled due to network change. Completed pages are kept.");
+          return;
+        }
         console.error("Rank calculation failed:", error);
-        setMessage("Failed to calculate rank. Please try again.");
+        const decoded = reportError(error);
+        if (decoded.type === "UserRejected" || decoded.type === "NetworkError") {
+          setStatusMessage(`${decoded.message} Completed rank pages are kept.`);
+        }
       } finally {
         setIsCalculatingRank(false);
+        setRankProgress(undefined);
       }
     };
 
     run();
-  }, [miningChallenge.address, miningChallenge.abi, ethersSigner, chainId, sameChain, sameSigner]);
+  }, [client, setMessage, reportError]);
 
   // Decrypt player's rank
   const decryptMyRank = useCallback(() => {
-    if (!miningChallenge.address || !instance || !ethersSigner || !playerRankEncrypted) {
+    if (!playerRankEncrypted || playerRankEncrypted === ethers.ZeroHash) {
       return;
     }
 
-    setIsDecryptingRank(true);
-    setMessage("Decrypting your rank...");
-
-    const thisChainId = chainId;
-    const thisContractAddress = miningChallenge.address;
     const thisRankHandle = playerRankEncrypted;
-    const thisEthersSigner = ethersSigner;
+
+    setMessage("Decrypting your rank...");
 
     const run = async () => {
-      const isStale = () =>
-        thisContractAddress !== miningChallengeRef.current?.address ||
-        !sameChain.current(thisChainId) ||
-        !sameSigner.current(thisEthersSigner);
+      const clearOf = await decryptHandles("rank", [thisRankHandle]);
+      if (!clearOf) {
+        return;
+      }
 
-      try {
-        const sig: FhevmDecryptionSignature | null =
-          await FhevmDecryptionSignature.loadOrSign(
-            instance,
-            [miningChallenge.address as `0x${string}`],
-            ethersSigner,
-            fhevmDecryptionSignatureStorage
-          );
+      const rankValue = clearOf(thisRankHandle);
+      if (rankValue === undefined) {
+        setMessage("Unable to retrieve rank value. Please try again.");
+        return;
+      }
 
-        if (!sig) {
-          setMessage("Unable to build decryption signature. Please try again.");
-          return;
+      setMessage(`Your rank: #${rankValue.toString()}`);
+    };
+
+    run();
+  }, [decryptHandles, playerRankEncrypted]);
+
+  // Refresh ownership, roles of the connected account and the pause switch
+  const refreshAdminState = useCallback(() => {
+    if (!client) {
+      setAdminState(undefined);
+      return;
+    }
+
+    const signal = clientSignalRef.current;
+
+    client
+      .getAdminState({ signal })
+      .then((value) => {
+        if (!signal?.aborted) {
+          setAdminState(value);
+        }
+      })
+      .catch((error: Error) => {
+        if (!signal?.aborted) {
+          console.error("Failed to load admin state:", error);
         }
+      });
+  }, [client]);
 
-        if (isStale()) {
-          setMessage("Rank decryption cancelled due to network change.");
-          return;
+  // Auto refresh admin state
+  useEffect(() => {
+    refreshAdminState();
+  }, [refreshAdminState]);
+
+  // Refresh reward token metadata and the player's claimable reward balance
+  const refreshRewards = useCallback(() => {
+    if (!client) {
+      setRewardTokenInfo(undefined);
+      setClaimableReward(undefined);
+      return;
+    }
+
+    const signal = clientSignalRef.current;
+
+    client
+      .getRewards({ signal })
+      .then((rewards) => {
+        if (!signal?.aborted) {
+          setRewardTokenInfo(rewards?.token);
+          setClaimableReward(rewards?.claimable);
+        }
+      })
+      .catch((error: Error) => {
+        if (!signal?.aborted) {
+          console.error("Failed to load rewards:", error);
         }
+      });
+  }, [client]);
 
-        setMessage("Processing rank decryption...");
-
-        // Ensure handle is in the correct format (string or Uint8Array)
-        // thisRankHandle should already be a string from calculateMyRank
-        const handleForDecrypt: string | Uint8Array = thisRankHandle;
-
-        const res = await instance.userDecrypt(
-          [{ handle: handleForDecrypt, contractAddress: thisContractAddress }],
-          sig.privateKey,
-          sig.publicKey,
-          sig.signature,
-          sig.contractAddresses,
-          sig.userAddress,
-          sig.startTimestamp,
-          sig.durationDays
-        );
+  // Auto refresh rewards
+  useEffect(() => {
+    refreshRewards();
+  }, [refreshRewards]);
+
+  // Claim all rewards allocated to the player
+  const claimReward = useCallback(() => {
+    if (!client || isClaimingReward) {
+      return;
+    }
 
-        setMessage("Rank decryption completed!");
+    const signal = clientSignalRef.current;
+
+    setIsClaimingReward(true);
+    setMessage("Claiming your reward...");
+
+    const run = async () => {
+      try {
+        const receipt = await client.claimReward({
+          signal,
+          onSubmitted: () => setMessage(`Transaction submitted. Waiting for confirmation...`),
+        });
 
-        if (isStale()) {
-          setMessage("Rank decryption cancelled due to network change.");
+        if (signal?.aborted) {
+          setMessage("Reward claim cancelled due to network change.");
           return;
         }
 
-        const rankValue = res[handleForDecrypt as `0x${string}`];
-        if (rankValue !== undefined && rankValue !== null) {
-          if (typeof rankValue === "bigint") {
-            setPlayerRankDecrypted(rankValue);
-            setMessage(`Your rank: #${rankValue.toString()}`);
-          } else if (typeof rankValue === "number") {
-            const rankBigInt = BigInt(rankValue);
-            setPlayerRankDecrypted(rankBigInt);
-            setMessage(`Your rank: #${rankBigInt.toString()}`);
-          } else {
-            setMessage("Unable to retrieve rank value. Please try again.");
-          }
+        if (receipt?.status === 1) {
+          setMessage("Reward claimed successfully!");
         } else {
-          setMessage("Unable to retrieve rank value. Please try again.");
+          setMessage("Reward claim failed. Please try again.");
         }
+
+        refreshRewards();
       } catch (error) {
-        console.error("Rank decryption failed:", error);
-        setMessage("Rank decryption failed. Please try again.");
+        if (signal?.aborted) {
+          setMessage("Reward claim cancelled due to network change.");
+          return;
+        }
+        console.error("Reward claim failed:", error);
+        reportError(error);
       } finally {
-        setIsDecryptingRank(false);
+        setIsClaimingReward(false);
       }
     };
 
     run();
-  }, [
-    fhevmDecryptionSignatureStorage,
-    ethersSigner,
-    miningChallenge.address,
-    instance,
-    playerRankEncrypted,
-    chainId,
-    sameChain,
-    sameSigner,
-  ]);
+  }, [client, isClaimingReward, refreshRewards, setMessage, reportError]);
+
+  // Load the player's PlayerMined logs (newest first)
+  const refreshHistory = useCallback(() => {
+    if (!client) {
+      setHistoryEntries(undefined);
+      return;
+    }
+
+    const signal = clientSignalRef.current;
+
+    setIsLoadingHistory(true);
+
+    const run = async () => {
+      try {
+        const entries = await client.getHistory({ signal });
+        if (!signal?.aborted) {
+          setHistoryEntries(entries);
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          return;
+        }
+        console.error("Failed to load mining history:", error);
+        setMessage("Failed to load your mining history. Please try again.");
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    };
+
+    run();
+  }, [client, setMessage]);
+
+  // Auto refresh history, including after each mine (the total handle changes)
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory, playerTotalMined]);
+
+  // Ledger entries with the values already in the decryption cache
+  const history = useMemo(
+    () =>
+      historyEntries?.map((entry): MiningHistoryEntryType => ({
+        ...entry,
+        amount: decodeClearUint(getClearValue(entry.amountHandle)),
+        total: decodeClearUint(getClearValue(entry.totalHandle)),
+      })),
+    [historyEntries, getClearValue]
+  );
+
+  const pendingHistoryHandles = useMemo(
+    () =>
+      (history ?? []).flatMap((entry) => [
+        ...(entry.amount === undefined ? [entry.amountHandle] : []),
+        ...(entry.total === undefined ? [entry.totalHandle] : []),
+      ]),
+    [history]
+  );
+
+  // Decrypt every not-yet-decrypted ledger entry with a single userDecrypt call
+  const decryptHistory = useCallback(() => {
+    if (pendingHistoryHandles.length === 0) {
+      return;
+    }
+
+    const thisHandles = pendingHistoryHandles;
+
+    setMessage("Decrypting your mining history...");
+
+    const run = async () => {
+      if (await decryptHandles("history", thisHandles)) {
+        setMessage(`Decrypted ${new Set(thisHandles).size} history values.`);
+      }
+    };
+
+    run();
+  }, [decryptHandles, pendingHistoryHandles]);
+
+  // Handles of the total, the rank and the ledger that are still encrypted
+  const pendingHandles = useMemo(
+    () =>
+      [
+        clearPlayerTotal === undefined ? playerTotalMined : undefined,
+        playerRankDecrypted === undefined ? playerRankEncrypted : undefined,
+        ...pendingHistoryHandles,
+      ].filter(
+        (handle): handle is string => handle !== undefined && handle !== ethers.ZeroHash
+      ),
+    [clearPlayerTotal, playerTotalMined, playerRankDecrypted, playerRankEncrypted, pendingHistoryHandles]
+  );
+
+  // Decrypt the total, the rank and the ledger in one relayer round trip
+  const decryptAll = useCallback(() => {
+    if (isRefreshingRef.current || pendingHandles.length === 0) {
+      return;
+    }
+
+    const thisHandles = pendingHandles;
+
+    setMessage("Decrypting all your values...");
+
+    const run = async () => {
+      if (await decryptHandles("all", thisHandles)) {
+        setMessage(`Decrypted ${new Set(thisHandles).size} values.`);
+      }
+    };
+
+    run();
+  }, [decryptHandles, pendingHandles]);
 
   // Computed values
   const canMine = useMemo(() => {
     return (
       miningChallenge.address &&
-      instance &&
+      // Random yields need no client-side encryption
+      (instance || yieldConfig?.randomYieldMode) &&
       ethersSigner &&
       !isRefreshing &&
-      !isMining
+      !isMining &&
+      !secondsUntilMine &&
+      !adminState?.isPaused
     );
-  }, [miningChallenge.address, instance, ethersSigner, isRefreshing, isMining]);
+  }, [
+    miningChallenge.address,
+    instance,
+    yieldConfig,
+    ethersSigner,
+    isRefreshing,
+    isMining,
+    secondsUntilMine,
+    adminState,
+  ]);
 
   const canDecrypt = useMemo(() => {
     return (
@@ -608,17 +938,17 @@ export const useMiningChallenge = (parameters: {
       instance &&
       ethersSigner &&
       !isRefreshing &&
-      !isDecrypting &&
+      !decrypting &&
       playerTotalMined &&
       playerTotalMined !== ethers.ZeroHash &&
-      playerTotalMined !== clearPlayerTotal?.handle
+      clearPlayerTotal === undefined
     );
   }, [
     miningChallenge.address,
     instance,
     ethersSigner,
     isRefreshing,
-    isDecrypting,
+    decrypting,
     playerTotalMined,
     clearPlayerTotal,
   ]);
@@ -627,16 +957,17 @@ export const useMiningChallenge = (parameters: {
     return (
       miningChallenge.address &&
       ethersSigner &&
-      !isCalculatingRank
+      !isCalculatingRank &&
+      !adminState?.isPaused
     );
-  }, [miningChallenge.address, ethersSigner, isCalculatingRank]);
+  }, [miningChallenge.address, ethersSigner, isCalculatingRank, adminState]);
 
   const canDecryptRank = useMemo(() => {
     return (
       miningChallenge.address &&
       instance &&
       ethersSigner &&
-      !isDecryptingRank &&
+      !decrypting &&
       playerRankEncrypted &&
       playerRankEncrypted !== ethers.ZeroHash &&
       playerRankDecrypted === undefined
@@ -645,7 +976,7 @@ export const useMiningChallenge = (parameters: {
     miningChallenge.address,
     instance,
     ethersSigner,
-    isDecryptingRank,
+    decrypting,
     playerRankEncrypted,
     playerRankDecrypted,
   ]);
@@ -663,16 +994,65 @@ export const useMiningChallenge = (parameters: {
     canDecryptRank,
     isDecrypted,
     message,
-    clear: clearPlayerTotal?.clear,
+    error,
+    clear: clearPlayerTotal,
     handle: playerTotalMined,
     isDecrypting,
     isRefreshing,
     isMining,
     isCalculatingRank,
+    rankProgress,
     isDecryptingRank,
     playerCount,
     playerRank: playerRankDecrypted,
     playerRankEncrypted,
+    currentSeason,
+    selectedSeason,
+    selectSeason,
+    rewardToken: rewardTokenInfo,
+    claimableReward,
+    claimReward,
+    canClaimReward: Boolean(
+      miningChallenge.address &&
+        ethersSigner &&
+        !isClaimingReward &&
+        claimableReward !== undefined &&
+        claimableReward > BigInt(0)
+    ),
+    isClaimingReward,
+    refreshRewards,
+    adminState,
+    isPaused: Boolean(adminState?.isPaused),
+    refreshAdminState,
+    maxMineAmount,
+    minMineInterval: cooldown?.minMineInterval,
+    nextMineAt,
+    secondsUntilMine,
+    refreshCooldown,
+    yieldConfig,
+    isRandomYieldMode: Boolean(yieldConfig?.randomYieldMode),
+    refreshYieldConfig,
+    history,
+    refreshHistory,
+    decryptHistory,
+    isLoadingHistory,
+    isDecryptingHistory,
+    canDecryptHistory: Boolean(
+      miningChallenge.address &&
+        instance &&
+        ethersSigner &&
+        !decrypting &&
+        pendingHistoryHandles.length > 0
+    ),
+    decryptAll,
+    canDecryptAll: Boolean(
+      miningChallenge.address &&
+        instance &&
+        ethersSigner &&
+        !isRefreshing &&
+        !decrypting &&
+        pendingHandles.length > 0
+    ),
     isDeployed: Boolean(miningChallenge.address && miningChallenge.address !== ethers.ZeroAddress),
   };
 };
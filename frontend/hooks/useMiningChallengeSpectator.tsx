@@ -0,0 +1,230 @@
+"use client";
+
+import { ethers } from "ethers";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { loadSeasonPlayers, PlayerEntry } from "@/client/MiningChallengeClient";
+import { decodeMiningChallengeError } from "@/hooks/miningChallengeErrors";
+import { getDeployedChains, getMiningChallengeByChainId } from "@/hooks/useMiningChallenge";
+
+// Blocks scanned backwards for PlayerMined logs (public RPCs cap eth_getLogs ranges)
+const RECENT_ACTIVITY_BLOCKS = 5000;
+
+// Newest PlayerMined logs kept as recent activity
+const RECENT_ACTIVITY_LIMIT = 20;
+
+export type SpectatorChainType = {
+  chainId: number;
+  chainName: string;
+};
+
+export type PublicStatsType = {
+  currentSeason: number;
+  playerCount: number;
+  minMineInterval: number;
+  maxMineAmount: number;
+  randomYieldMode: boolean;
+  isPaused: boolean;
+  // Undefined when no reward token is configured
+  rewardToken: `0x${string}` | undefined;
+};
+
+export type PublicActivityType = {
+  id: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+  player: `0x${string}`;
+  seasonId: number;
+};
+
+/**
+ * Chains that can be watched without a wallet: a deployed contract and a public RPC URL
+ * in MiningChallengeAddresses.
+ */
+export function getSpectatorChains(): SpectatorChainType[] {
+  return getDeployedChains()
+    .filter((entry) => Boolean(entry.rpcUrl))
+    .map((entry) => ({
+      chainId: entry.chainId,
+      chainName: entry.chainName ?? `Chain ${entry.chainId}`,
+    }));
+}
+
+/**
+ * Read-only MiningChallenge data for visitors without a wallet: public settings, the player
+ * directory of the current season and recent PlayerMined activity. Reads go through the
+ * chain's `rpcUrl` from MiningChallengeAddresses; nothing here needs a signer or FHEVM.
+ */
+export const useMiningChallengeSpectator = (parameters: {
+  chainId: number | undefined;
+  // Spectating stops (no RPC traffic) while disabled, e.g. once a wallet is connected
+  enabled: boolean;
+}) => {
+  const { chainId, enabled } = parameters;
+
+  const [stats, setStats] = useState<PublicStatsType | undefined>(undefined);
+  const [players, setPlayers] = useState<PlayerEntry[] | undefined>(undefined);
+  const [activity, setActivity] = useState<PublicActivityType[] | undefined>(undefined);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+
+  const activeLoadId = useRef(0);
+
+  const miningChallenge = useMemo(() => getMiningChallengeByChainId(chainId), [chainId]);
+
+  const provider = useMemo(() => {
+    if (!enabled || !miningChallenge.chainId || !miningChallenge.rpcUrl) {
+      return undefined;
+    }
+    // staticNetwork: skip the eth_chainId round trip before every request
+    return new ethers.JsonRpcProvider(miningChallenge.rpcUrl, miningChallenge.chainId, {
+      staticNetwork: true,
+    });
+  }, [enabled, miningChallenge]);
+
+  useEffect(() => {
+    return () => {
+      provider?.destroy();
+    };
+  }, [provider]);
+
+  const contract = useMemo(
+    () =>
+      provider && miningChallenge.address
+        ? new ethers.Contract(miningChallenge.address, miningChallenge.abi, provider)
+        : undefined,
+    [provider, miningChallenge]
+  );
+
+  const isAvailable = Boolean(contract);
+
+  const refresh = useCallback(() => {
+    const thisLoadId = ++activeLoadId.current;
+
+    if (!contract || !provider) {
+      setStats(undefined);
+      setPlayers(undefined);
+      setActivity(undefined);
+      setIsRefreshing(false);
+      return;
+    }
+
+    const thisContract = contract;
+    const thisProvider = provider;
+    const isStale = () => thisLoadId !== activeLoadId.current;
+
+    setIsRefreshing(true);
+
+    const run = async () => {
+      try {
+        const [
+          currentSeason,
+          playerCount,
+          minMineInterval,
+          maxMineAmount,
+          randomYieldMode,
+          isPaused,
+          rewardToken,
+          latestBlock,
+        ] = await Promise.all([
+          thisContract.currentSeason() as Promise<bigint>,
+          thisContract.getPlayerCount() as Promise<bigint>,
+          thisContract.minMineInterval() as Promise<bigint>,
+          thisContract.maxMineAmount() as Promise<bigint>,
+          thisContract.randomYieldMode() as Promise<boolean>,
+          thisContract.paused() as Promise<boolean>,
+          thisContract.rewardToken() as Promise<string>,
+          thisProvider.getBlockNumber(),
+        ]);
+
+        if (isStale()) {
+          return;
+        }
+
+        setStats({
+          currentSeason: Number(currentSeason),
+          playerCount: Number(playerCount),
+          minMineInterval: Number(minMineInterval),
+          maxMineAmount: Number(maxMineAmount),
+          randomYieldMode,
+          isPaused,
+          rewardToken:
+            rewardToken === ethers.ZeroAddress ? undefined : (rewardToken as `0x${string}`),
+        });
+
+        // Player directory of the current season, most recently active first
+        const directory = await loadSeasonPlayers(thisContract, Number(currentSeason));
+        if (isStale()) {
+          return;
+        }
+        directory.sort((a, b) => b.lastMineTime - a.lastMineTime);
+        setPlayers(directory);
+
+        const logs = await thisContract.queryFilter(
+          thisContract.filters.PlayerMined(),
+          Math.max(0, latestBlock - RECENT_ACTIVITY_BLOCKS),
+          latestBlock
+        );
+        const recentLogs = logs
+          .filter((log): log is ethers.EventLog => "args" in log)
+          .reverse()
+          .slice(0, RECENT_ACTIVITY_LIMIT);
+
+        // One block lookup per distinct block for the timestamps
+        const blockNumbers = Array.from(new Set(recentLogs.map((log) => log.blockNumber)));
+        const blocks = await Promise.all(
+          blockNumbers.map((blockNumber) => thisProvider.getBlock(blockNumber))
+        );
+        const timestamps = new Map(
+          blocks.map((block, i) => [blockNumbers[i], block?.timestamp ?? 0])
+        );
+
+        if (isStale()) {
+          return;
+        }
+
+        setActivity(
+          recentLogs.map((log) => ({
+            id: `${log.transactionHash}-${log.index}`,
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+            timestamp: timestamps.get(log.blockNumber) ?? 0,
+            player: log.args.player as `0x${string}`,
+            seasonId: Number(log.args.seasonId),
+          }))
+        );
+        setMessage("");
+      } catch (e) {
+        if (!isStale()) {
+          setMessage(`Failed to load public data: ${decodeMiningChallengeError(e).message}`);
+        }
+      } finally {
+        if (!isStale()) {
+          setIsRefreshing(false);
+        }
+      }
+    };
+
+    run();
+  }, [contract, provider]);
+
+  // Load on start and whenever the watched chain changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    chainId: miningChallenge.chainId,
+    chainName: miningChallenge.chainName,
+    contractAddress: miningChallenge.address,
+    rpcUrl: miningChallenge.rpcUrl,
+    isAvailable,
+    stats,
+    players,
+    activity,
+    isRefreshing,
+    message,
+    refresh,
+  };
+};
@@ -0,0 +1,473 @@
+"use client";
+
+import { ethers } from "ethers";
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+import {
+  MiningChallengeClient,
+  queryLogsInChunks,
+  RankProgress,
+} from "@/client/MiningChallengeClient";
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { useDecryptHandles } from "@/fhevm/useDecryptHandles";
+
+import { decodeMiningChallengeError } from "@/hooks/miningChallengeErrors";
+
+import {
+  getMiningChallengeByChainId,
+  MiningChallengeInfoType,
+} from "@/hooks/useMiningChallenge";
+
+export type TeamInfoType = {
+  id: number;
+  name: string;
+  leader: `0x${string}`;
+  members: `0x${string}`[];
+  isLeader: boolean;
+};
+
+export type TeamInviteType = {
+  teamId: number;
+  name: string;
+  inviter: `0x${string}`;
+};
+
+/**
+ * Team (guild) React hook: membership flows, encrypted team total and encrypted team rank
+ * for the current season.
+ */
+export const useMiningTeam = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  // Lifetime of newly signed decryption signatures (defaults to DEFAULT_SIGNATURE_DURATION_DAYS)
+  fhevmDecryptionSignatureDurationDays?: number;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<
+    (ethersSigner: ethers.JsonRpcSigner | undefined) => boolean
+  >;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+  } = parameters;
+
+  // States
+  const [team, setTeam] = useState<TeamInfoType | undefined>(undefined);
+  const [invites, setInvites] = useState<TeamInviteType[]>([]);
+  const [currentSeason, setCurrentSeason] = useState<number | undefined>(undefined);
+  const [teamTotalHandle, setTeamTotalHandle] = useState<string | undefined>(undefined);
+  const [teamRankHandle, setTeamRankHandle] = useState<string | undefined>(undefined);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [teamRankProgress, setTeamRankProgress] = useState<RankProgress | undefined>(undefined);
+  const [message, setMessage] = useState<string>("");
+
+  const {
+    decrypt: decryptClearValues,
+    getClearValue,
+    isDecrypting,
+  } = useDecryptHandles({
+    instance,
+    ethersSigner,
+    chainId,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    sameChain,
+    sameSigner,
+  });
+
+  // Refs
+  const miningChallengeRef = useRef<MiningChallengeInfoType | undefined>(undefined);
+
+  // MiningChallenge contract info
+  const miningChallenge = useMemo(() => {
+    const c = getMiningChallengeByChainId(chainId);
+    miningChallengeRef.current = c;
+    return c;
+  }, [chainId]);
+
+  // Drives the paged team rank job; decryption stays on useDecryptHandles
+  const client = useMemo(() => {
+    if (!miningChallenge.address || !ethersSigner) {
+      return undefined;
+    }
+    return new MiningChallengeClient({
+      instance,
+      signer: ethersSigner,
+      readonlyRunner: ethersReadonlyProvider,
+      storage: fhevmDecryptionSignatureStorage,
+      address: miningChallenge.address,
+      signatureDurationDays: fhevmDecryptionSignatureDurationDays,
+      deployBlock: miningChallenge.deployBlock,
+    });
+  }, [
+    miningChallenge,
+    instance,
+    ethersSigner,
+    ethersReadonlyProvider,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+  ]);
+
+  // Calls of a replaced client (network, account or instance change) are aborted
+  const clientSignalRef = useRef<AbortSignal | undefined>(undefined);
+  useEffect(() => {
+    const controller = new AbortController();
+    clientSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, [client]);
+
+  // Refresh the player's team, pending invites and team total
+  const refreshTeam = useCallback(() => {
+    if (
+      !miningChallengeRef.current?.chainId ||
+      !miningChallengeRef.current?.address ||
+      !ethersReadonlyProvider ||
+      !ethersSigner
+    ) {
+      setTeam(undefined);
+      setInvites([]);
+      setTeamTotalHandle(undefined);
+      return;
+    }
+
+    const thisChainId = miningChallengeRef.current.chainId;
+    const thisContractAddress = miningChallengeRef.current.address;
+    const thisEthersSigner = ethersSigner;
+    const thisDeployBlock = miningChallengeRef.current.deployBlock;
+
+    const thisContract = new ethers.Contract(
+      thisContractAddress,
+      miningChallengeRef.current.abi,
+      ethersReadonlyProvider
+    );
+
+    const isStale = () =>
+      thisContractAddress !== miningChallengeRef.current?.address ||
+      !sameChain.current(thisChainId) ||
+      !sameSigner.current(thisEthersSigner);
+
+    setIsRefreshing(true);
+
+    const run = async () => {
+      try {
+        const [teamId, season]: [bigint, bigint] = await Promise.all([
+          thisContract.playerTeam(thisEthersSigner.address),
+          thisContract.currentSeason(),
+        ]);
+
+        let thisTeam: TeamInfoType | undefined;
+        let thisTotalHandle: string | undefined;
+        if (teamId !== BigInt(0)) {
+          const [name, leader, members] = await thisContract.getTeam(teamId);
+          thisTeam = {
+            id: Number(teamId),
+            name,
+            leader,
+            members: [...members],
+            isLeader: leader.toLowerCase() === thisEthersSigner.address.toLowerCase(),
+          };
+          const handle: string = await thisContract.getTeamTotalMined(teamId);
+          thisTotalHandle = handle === ethers.ZeroHash ? undefined : handle;
+        }
+
+        // Invites are discovered from TeamInvited logs, then checked against the still-open invites
+        const thisInvites: TeamInviteType[] = [];
+        if (!thisTeam) {
+          const logs = await queryLogsInChunks(
+            thisContract,
+            thisContract.filters.TeamInvited(null, thisEthersSigner.address),
+            thisDeployBlock
+          );
+          const seen = new Set<number>();
+          for (const log of logs.reverse()) {
+            if (!("args" in log)) {
+              continue;
+            }
+            const inviteTeamId = Number(log.args.teamId);
+            if (seen.has(inviteTeamId)) {
+              continue;
+            }
+            seen.add(inviteTeamId);
+            if (await thisContract.teamInvites(inviteTeamId, thisEthersSigner.address)) {
+              const [name] = await thisContract.getTeam(inviteTeamId);
+              thisInvites.push({ teamId: inviteTeamId, name, inviter: log.args.inviter });
+            }
+          }
+        }
+
+        if (isStale()) {
+          return;
+        }
+
+        setCurrentSeason(Number(season));
+        setTeam(thisTeam);
+        setInvites(thisInvites);
+        setTeamTotalHandle(thisTotalHandle);
+        if (!thisTeam) {
+          setTeamRankHandle(undefined);
+        }
+      } catch (error) {
+        console.error("Failed to load team:", error);
+        if (!isStale()) {
+          setMessage("Failed to load team data. Please try again.");
+        }
+      } finally {
+        setIsRefreshing(false);
+      }
+    };
+
+    run();
+  }, [ethersReadonlyProvider, ethersSigner, sameChain, sameSigner]);
+
+  // Auto refresh team
+  useEffect(() => {
+    refreshTeam();
+  }, [refreshTeam]);
+
+  // Send a team transaction, then refresh team data
+  const sendTeamTx = useCallback(
+    (
+      label: string,
+      send: (contract: ethers.Contract) => Promise<ethers.TransactionResponse>,
+      onReceipt?: (receipt: ethers.TransactionReceipt, contract: ethers.Contract) => void
+    ) => {
+      if (!miningChallenge.address || !ethersSigner || isBusy) {
+        return;
+      }
+
+      const thisChainId = chainId;
+      const thisContractAddress = miningChallenge.address;
+      const thisEthersSigner = ethersSigner;
+      const thisContract = new ethers.Contract(
+        thisContractAddress,
+        miningChallenge.abi,
+        thisEthersSigner
+      );
+
+      setIsBusy(true);
+      setMessage(`${label}...`);
+
+      const run = async () => {
+        const isStale = () =>
+          thisContractAddress !== miningChallengeRef.current?.address ||
+          !sameChain.current(thisChainId) ||
+          !sameSigner.current(thisEthersSigner);
+
+        try {
+          const tx = await send(thisContract);
+
+          setMessage(`Transaction submitted. Waiting for confirmation...`);
+
+          const receipt = await tx.wait();
+
+          if (isStale()) {
+            setMessage(`${label} cancelled due to network change.`);
+            return;
+          }
+
+          if (receipt?.status === 1) {
+            onReceipt?.(receipt, thisContract);
+            setMessage(`${label} succeeded.`);
+          } else {
+            setMessage(`${label} failed. Please try again.`);
+          }
+
+          refreshTeam();
+        } catch (error) {
+          console.error(`${label} failed:`, error);
+          setMessage(`${label} failed: ${decodeMiningChallengeError(error).message}`);
+        } finally {
+          setIsBusy(false);
+        }
+      };
+
+      run();
+    },
+    [
+      miningChallenge.address,
+      miningChallenge.abi,
+      ethersSigner,
+      isBusy,
+      chainId,
+      refreshTeam,
+      sameChain,
+      sameSigner,
+    ]
+  );
+
+  const createTeam = useCallback(
+    (name: string) => {
+      const trimmed = name.trim();
+      if (trimmed.length === 0 || ethers.toUtf8Bytes(trimmed).length > 32) {
+        setMessage("Team names must be between 1 and 32 bytes.");
+        return;
+      }
+      sendTeamTx(`Creating team "${trimmed}"`, (c) => c.createTeam(trimmed));
+    },
+    [sendTeamTx]
+  );
+
+  const inviteToTeam = useCallback(
+    (player: string) => {
+      if (!ethers.isAddress(player)) {
+        setMessage("Please enter a valid player address.");
+        return;
+      }
+      sendTeamTx("Sending invite", (c) => c.inviteToTeam(player));
+    },
+    [sendTeamTx]
+  );
+
+  const acceptInvite = useCallback(
+    (teamId: number) => {
+      sendTeamTx("Joining team", (c) => c.acceptTeamInvite(teamId));
+    },
+    [sendTeamTx]
+  );
+
+  const leaveTeam = useCallback(() => {
+    sendTeamTx("Leaving team", (c) => c.leaveTeam());
+  }, [sendTeamTx]);
+
+  // Calculate the team rank for the current season with the paged team rank job
+  const calculateTeamRank = useCallback(() => {
+    if (!client || currentSeason === undefined || isBusy) {
+      return;
+    }
+
+    const signal = clientSignalRef.current;
+    const thisSeasonId = currentSeason;
+
+    setIsBusy(true);
+    setMessage("Calculating team rank...");
+
+    const run = async () => {
+      try {
+        const rankHandle = await client.calculateTeamRank(thisSeasonId, {
+          signal,
+          onProgress: (step, progress) => {
+            if (step === "start") {
+              setMessage("Submitting team rank calculation request...");
+              return;
+            }
+            setTeamRankProgress(progress);
+            setMessage(
+              step === "page"
+                ? `Calculating team rank: page ${progress.page}/${progress.totalPages}`
+                : "Retrieving your team rank..."
+            );
+          },
+        });
+
+        if (signal?.aborted) {
+          setMessage("Calculating team rank cancelled due to network change.");
+          return;
+        }
+
+        setTeamRankHandle(rankHandle);
+        setMessage("Calculating team rank succeeded.");
+        refreshTeam();
+      } catch (error) {
+        if (signal?.aborted) {
+          setMessage("Calculating team rank cancelled due to network change. Completed pages are kept.");
+          return;
+        }
+        console.error("Calculating team rank failed:", error);
+        setMessage(`Calculating team rank failed: ${decodeMiningChallengeError(error).message}`);
+      } finally {
+        setIsBusy(false);
+        setTeamRankProgress(undefined);
+      }
+    };
+
+    run();
+  }, [client, currentSeason, isBusy, refreshTeam]);
+
+  const clearOf = (handle: string | undefined) => {
+    const value = getClearValue(handle);
+    return typeof value === "bigint" ? value : undefined;
+  };
+  const clearTeamTotal = clearOf(teamTotalHandle);
+  const clearTeamRank = clearOf(teamRankHandle);
+
+  // Decrypt the team total and team rank with one userDecrypt call
+  const decryptTeam = useCallback(() => {
+    if (!miningChallenge.address) {
+      return;
+    }
+
+    const thisContractAddress = miningChallenge.address;
+    const pairs = [teamTotalHandle, teamRankHandle]
+      .filter((handle): handle is string => handle !== undefined)
+      .map((handle) => ({ handle, contractAddress: thisContractAddress }));
+
+    setMessage("Decrypting team data...");
+
+    const run = async () => {
+      try {
+        const res = await decryptClearValues(pairs);
+        if (!res || thisContractAddress !== miningChallengeRef.current?.address) {
+          setMessage("Decryption cancelled. Please try again.");
+          return;
+        }
+        setMessage("Team data decrypted.");
+      } catch (error) {
+        console.error("Team decryption failed:", error);
+        setMessage(`Team decryption failed: ${decodeMiningChallengeError(error).message}`);
+      }
+    };
+
+    run();
+  }, [miningChallenge.address, teamTotalHandle, teamRankHandle, decryptClearValues]);
+
+  return {
+    team,
+    invites,
+    currentSeason,
+    teamTotalHandle,
+    teamRankHandle,
+    clearTeamTotal,
+    clearTeamRank,
+    message,
+    isRefreshing,
+    isBusy,
+    isDecrypting,
+    refreshTeam,
+    createTeam,
+    inviteToTeam,
+    acceptInvite,
+    leaveTeam,
+    calculateTeamRank,
+    teamRankProgress,
+    decryptTeam,
+    canCalculateTeamRank: Boolean(
+      miningChallenge.address && ethersSigner && team && teamTotalHandle && !isBusy
+    ),
+    canDecryptTeam: Boolean(
+      miningChallenge.address &&
+        instance &&
+        ethersSigner &&
+        !isDecrypting &&
+        ((teamTotalHandle && clearTeamTotal === undefined) ||
+          (teamRankHandle && clearTeamRank === undefined))
+    ),
+  };
+};
@@ -0,0 +1,153 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { loadSeasonPlayers, PlayerEntry } from "@/client/MiningChallengeClient";
+import { decodeMiningChallengeError } from "@/hooks/miningChallengeErrors";
+import { getMiningChallengeByChainId } from "@/hooks/useMiningChallenge";
+
+// Players shown per page of the directory
+export const DEFAULT_DIRECTORY_PAGE_SIZE = 10;
+
+// "recent": most recently active first, "oldest": least recently active first, "joined": join order
+export type PlayerDirectorySortType = "recent" | "oldest" | "joined";
+
+/**
+ * Player directory of a season: loads every player with getSeasonPlayersPage(), then
+ * searches (by address substring), sorts by last activity and pages locally.
+ */
+export const usePlayerDirectory = (parameters: {
+  chainId: number | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  // Season to list, undefined for the current season
+  seasonId: number | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  pageSize?: number;
+}) => {
+  const {
+    chainId,
+    ethersReadonlyProvider,
+    seasonId,
+    sameChain,
+    pageSize = DEFAULT_DIRECTORY_PAGE_SIZE,
+  } = parameters;
+
+  const [players, setPlayers] = useState<PlayerEntry[] | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [search, setSearchState] = useState<string>("");
+  const [sort, setSortState] = useState<PlayerDirectorySortType>("recent");
+  const [page, setPage] = useState<number>(0);
+
+  const activeLoadId = useRef(0);
+
+  const contract = useMemo(() => {
+    const miningChallenge = getMiningChallengeByChainId(chainId);
+    if (!miningChallenge.address || !ethersReadonlyProvider) {
+      return undefined;
+    }
+    return new ethers.Contract(miningChallenge.address, miningChallenge.abi, ethersReadonlyProvider);
+  }, [chainId, ethersReadonlyProvider]);
+
+  const refresh = useCallback(() => {
+    const thisLoadId = ++activeLoadId.current;
+
+    if (!contract) {
+      setPlayers(undefined);
+      setIsLoading(false);
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisContract = contract;
+    const isStale = () => thisLoadId !== activeLoadId.current || !sameChain.current(thisChainId);
+
+    setIsLoading(true);
+
+    const run = async () => {
+      try {
+        const thisSeasonId = seasonId ?? Number(await thisContract.currentSeason());
+        // Show the first pages while the rest is loading
+        const loaded = await loadSeasonPlayers(thisContract, thisSeasonId, {
+          onPage: (partial) => {
+            if (!isStale()) {
+              setPlayers(partial);
+            }
+          },
+        });
+        if (isStale()) {
+          return;
+        }
+        setPlayers(loaded);
+        setMessage("");
+      } catch (e) {
+        if (!isStale()) {
+          setMessage(`Failed to load players: ${decodeMiningChallengeError(e).message}`);
+        }
+      } finally {
+        if (thisLoadId === activeLoadId.current) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    run();
+  }, [contract, chainId, seasonId, sameChain]);
+
+  // Reload whenever the contract or the season changes
+  useEffect(() => {
+    setPage(0);
+    refresh();
+  }, [refresh]);
+
+  const setSearch = useCallback((value: string) => {
+    setSearchState(value);
+    setPage(0);
+  }, []);
+
+  const setSort = useCallback((value: PlayerDirectorySortType) => {
+    setSortState(value);
+    setPage(0);
+  }, []);
+
+  const filteredPlayers = useMemo(() => {
+    if (!players) {
+      return [];
+    }
+    const query = search.trim().toLowerCase();
+    const matches = query
+      ? players.filter((player) => player.address.toLowerCase().includes(query))
+      : players.slice();
+    if (sort === "recent") {
+      matches.sort((a, b) => b.lastMineTime - a.lastMineTime);
+    } else if (sort === "oldest") {
+      matches.sort((a, b) => a.lastMineTime - b.lastMineTime);
+    }
+    return matches;
+  }, [players, search, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredPlayers.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagePlayers = useMemo(
+    () => filteredPlayers.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    [filteredPlayers, currentPage, pageSize]
+  );
+
+  return {
+    players,
+    playerCount: players?.length,
+    matchCount: filteredPlayers.length,
+    pagePlayers,
+    page: currentPage,
+    pageCount,
+    setPage,
+    search,
+    setSearch,
+    sort,
+    setSort,
+    isLoading,
+    message,
+    refresh,
+  };
+};